@@ -34,19 +34,44 @@ impl EmbeddingService {
     }
 
     pub async fn embed(&self, text: &str) -> Result<Vec<f32>> {
+        let mut embeddings = self.embed_batch(&[text.to_string()]).await?;
+        embeddings.pop().context("No embedding returned")
+    }
+
+    /// Embed several texts in one inference run, padding them to the longest
+    pub async fn embed_batch(&self, texts: &[String]) -> Result<Vec<Vec<f32>>> {
+        if texts.is_empty() {
+            return Ok(Vec::new());
+        }
+
         // Tokenize
-        let encoding = self
+        let encodings = self
             .tokenizer
-            .encode(text, false)
+            .encode_batch(texts.to_vec(), false)
             .context("Failed to tokenize")?;
 
-        let input_ids = encoding.get_ids();
-        let attention_mask = encoding.get_attention_mask();
+        let batch_size = encodings.len();
+        let max_len = encodings
+            .iter()
+            .map(|encoding| encoding.get_ids().len())
+            .max()
+            .unwrap_or(0)
+            .max(1);
+
+        // Pad every row to the same length; padding is masked out
+        let mut input_ids = vec![0u32; batch_size * max_len];
+        let mut attention_mask = vec![0u32; batch_size * max_len];
+        for (row, encoding) in encodings.iter().enumerate() {
+            let offset = row * max_len;
+            let ids = encoding.get_ids();
+            let mask = encoding.get_attention_mask();
+            input_ids[offset..offset + ids.len()].copy_from_slice(ids);
+            attention_mask[offset..offset + mask.len()].copy_from_slice(mask);
+        }
 
         // Convert to arrays
-        let input_ids_array = Array::from_shape_vec((1, input_ids.len()), input_ids.to_vec())?;
-        let attention_mask_array =
-            Array::from_shape_vec((1, attention_mask.len()), attention_mask.to_vec())?;
+        let input_ids_array = Array::from_shape_vec((batch_size, max_len), input_ids)?;
+        let attention_mask_array = Array::from_shape_vec((batch_size, max_len), attention_mask.clone())?;
 
         // Run inference
         let outputs: SessionOutputs = self.session.run(ort::inputs![
@@ -60,16 +85,17 @@ impl EmbeddingService {
             .view()
             .to_owned();
 
-        // Mean pooling
-        let pooled = self.mean_pooling(&embeddings, attention_mask);
-
-        // Normalize
-        let normalized = self.normalize(&pooled);
-
-        Ok(normalized)
+        // Mean pooling and normalization per row
+        Ok((0..batch_size)
+            .map(|row| {
+                let mask = &attention_mask[row * max_len..(row + 1) * max_len];
+                let pooled = self.mean_pooling(&embeddings.view(), row, mask);
+                self.normalize(&pooled)
+            })
+            .collect())
     }
 
-    fn mean_pooling(&self, embeddings: &ArrayView<f32, ndarray::IxDyn>, attention_mask: &[u32]) -> Vec<f32> {
+    fn mean_pooling(&self, embeddings: &ArrayView<f32, ndarray::IxDyn>, row: usize, attention_mask: &[u32]) -> Vec<f32> {
         let shape = embeddings.shape();
         let seq_len = shape[1];
         let hidden_size = shape[2];
@@ -80,7 +106,7 @@ impl EmbeddingService {
         for i in 0..seq_len {
             if attention_mask[i] == 1 {
                 for j in 0..hidden_size {
-                    pooled[j] += embeddings[[0, i, j]];
+                    pooled[j] += embeddings[[row, i, j]];
                 }
                 mask_sum += 1.0;
             }
@@ -88,7 +114,7 @@ impl EmbeddingService {
 
         // Average
         for val in &mut pooled {
-            *val /= mask_sum;
+            *val /= mask_sum.max(1.0);
         }
 
         pooled
@@ -1,6 +1,7 @@
 use axum::{
-    extract::{Json, State},
+    extract::{Json, Request, State},
     http::{header, Method, StatusCode},
+    middleware::{self, Next},
     response::{IntoResponse, Response},
     routing::{get, post},
     Router,
@@ -20,6 +21,8 @@ use index::VectorIndex;
 struct AppState {
     embedding_service: Arc<EmbeddingService>,
     vector_index: Arc<VectorIndex>,
+    // Bearer token required on every request (SYSTEMATICS_EMBEDDINGS_TOKEN), if set
+    token: Option<String>,
 }
 
 #[derive(Deserialize)]
@@ -33,6 +36,20 @@ struct EmbedResponse {
     dimensions: usize,
 }
 
+// Most texts accepted by one /embed_batch request
+const MAX_BATCH_SIZE: usize = 256;
+
+#[derive(Deserialize)]
+struct EmbedBatchRequest {
+    texts: Vec<String>,
+}
+
+#[derive(Serialize)]
+struct EmbedBatchResponse {
+    embeddings: Vec<Vec<f32>>,
+    dimensions: usize,
+}
+
 #[derive(Deserialize)]
 struct SearchRequest {
     query: String,
@@ -69,6 +86,7 @@ struct HealthResponse {
     status: String,
     model: String,
     dimensions: usize,
+    max_batch_size: usize,
 }
 
 #[derive(Serialize)]
@@ -81,6 +99,7 @@ enum AppError {
     EmbeddingError(String),
     NotFound(String),
     BadRequest(String),
+    Unauthorized(String),
 }
 
 impl IntoResponse for AppError {
@@ -89,6 +108,7 @@ impl IntoResponse for AppError {
             AppError::EmbeddingError(msg) => (StatusCode::INTERNAL_SERVER_ERROR, msg),
             AppError::NotFound(msg) => (StatusCode::NOT_FOUND, msg),
             AppError::BadRequest(msg) => (StatusCode::BAD_REQUEST, msg),
+            AppError::Unauthorized(msg) => (StatusCode::UNAUTHORIZED, msg),
         };
 
         (status, Json(ErrorResponse { error: message })).into_response()
@@ -101,12 +121,34 @@ impl From<anyhow::Error> for AppError {
     }
 }
 
+// Middleware
+async fn require_token(
+    State(state): State<AppState>,
+    request: Request,
+    next: Next,
+) -> Result<Response, AppError> {
+    if let Some(token) = &state.token {
+        let provided = request
+            .headers()
+            .get(header::AUTHORIZATION)
+            .and_then(|value| value.to_str().ok())
+            .and_then(|value| value.strip_prefix("Bearer "));
+
+        if provided != Some(token.as_str()) {
+            return Err(AppError::Unauthorized("Missing or invalid bearer token".to_string()));
+        }
+    }
+
+    Ok(next.run(request).await)
+}
+
 // Handlers
 async fn health(State(_state): State<AppState>) -> Json<HealthResponse> {
     Json(HealthResponse {
         status: "ok".to_string(),
         model: "all-MiniLM-L6-v2".to_string(),
         dimensions: 384,
+        max_batch_size: MAX_BATCH_SIZE,
     })
 }
 
@@ -122,6 +164,26 @@ async fn embed(
     }))
 }
 
+async fn embed_batch(
+    State(state): State<AppState>,
+    Json(payload): Json<EmbedBatchRequest>,
+) -> Result<Json<EmbedBatchResponse>, AppError> {
+    if payload.texts.len() > MAX_BATCH_SIZE {
+        return Err(AppError::BadRequest(format!(
+            "At most {} texts per batch, got {}",
+            MAX_BATCH_SIZE,
+            payload.texts.len()
+        )));
+    }
+
+    let embeddings = state.embedding_service.embed_batch(&payload.texts).await?;
+
+    Ok(Json(EmbedBatchResponse {
+        dimensions: embeddings.first().map_or(0, |embedding| embedding.len()),
+        embeddings,
+    }))
+}
+
 async fn index_document(
     State(state): State<AppState>,
     Json(payload): Json<IndexRequest>,
@@ -171,36 +233,47 @@ async fn main() -> anyhow::Result<()> {
     // Initialize vector index
     let vector_index = Arc::new(VectorIndex::new());
 
+    let token = std::env::var("SYSTEMATICS_EMBEDDINGS_TOKEN")
+        .ok()
+        .filter(|token| !token.is_empty());
+    if token.is_some() {
+        info!("Bearer token authentication enabled");
+    }
+
     let state = AppState {
         embedding_service,
         vector_index,
+        token,
     };
 
     // Configure CORS for Obsidian
     let cors = CorsLayer::new()
         .allow_origin(Any)
         .allow_methods([Method::GET, Method::POST])
-        .allow_headers([header::CONTENT_TYPE]);
+        .allow_headers([header::CONTENT_TYPE, header::AUTHORIZATION]);
 
     // Build router
     let app = Router::new()
         .route("/health", get(health))
         .route("/embed", post(embed))
+        .route("/embed_batch", post(embed_batch))
         .route("/index", post(index_document))
         .route("/search", post(search))
+        .layer(middleware::from_fn_with_state(state.clone(), require_token))
         .layer(cors)
         .with_state(state);
 
-    // Start server
-    let addr = "127.0.0.1:8765";
+    // Start server (SYSTEMATICS_EMBEDDINGS_ADDR overrides the default address, e.g. 0.0.0.0:9000)
+    let addr = std::env::var("SYSTEMATICS_EMBEDDINGS_ADDR").unwrap_or_else(|_| "127.0.0.1:8765".to_string());
     info!("Server listening on {}", addr);
     println!("🚀 Systematics Embedding Server ready at http://{}", addr);
     println!("   - Health check: GET  http://{}/health", addr);
     println!("   - Embed text:   POST http://{}/embed", addr);
+    println!("   - Embed batch:  POST http://{}/embed_batch", addr);
     println!("   - Index doc:    POST http://{}/index", addr);
     println!("   - Search:       POST http://{}/search", addr);
 
-    let listener = tokio::net::TcpListener::bind(addr).await?;
+    let listener = tokio::net::TcpListener::bind(&addr).await?;
     axum::serve(listener, app).await?;
 
     Ok(())
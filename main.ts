@@ -1,18 +1,124 @@
-import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf } from 'obsidian';
-import { SystematicsSettings } from './src/types';
+import { App, Notice, Platform, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, normalizePath } from 'obsidian';
+import { SystematicsSettings, EmbeddingProviderType, GraphGeometry, GraphInstance, GraphDocument, GraphViewport, NodeLabelSettings, DyadView, SystematicView, ConceptualNode } from './src/types';
+import { BUILTIN_GRAPHS, generateRegularPolygon, generateCompleteGraphEdges, parseGraphDefinitions, serializeGraphDefinition } from './src/graphData';
 import { SystematicsGraphView, VIEW_TYPE_SYSTEMATICS } from './src/graphView';
 import { SemanticMonadView, VIEW_TYPE_SEMANTIC_MONAD } from './src/semanticMonadView';
+import { ContextualSearchView, VIEW_TYPE_CONTEXTUAL_SEARCH } from './src/contextualSearchView';
+import { GraphSuggestModal, GraphDefinitionModal, ScaleSuggestModal } from './src/modals';
+import { EXPORT_SIZE, PNG_SCALES } from './src/graphExport';
+import { GraphImporter } from './src/graphImport';
+import { GraphFileStore, GRAPH_FILE_SUFFIX, isGraphFile } from './src/graphFiles';
+import { GraphEmbed } from './src/graphEmbed';
+import { EmbeddingProvider } from './src/embeddingProvider';
+import { EmbeddingService, EmbeddingServerConfig, DEFAULT_SERVER_URL } from './src/embeddingService';
+import { OpenAIEmbeddingProvider, DEFAULT_OPENAI_URL, DEFAULT_OPENAI_MODEL } from './src/openAIEmbeddings';
+import { HashedEmbeddingProvider } from './src/hashedEmbeddings';
 
 const DEFAULT_SETTINGS: SystematicsSettings = {
-    currentGraph: 3,
-    nodeLabelSettings: {}
+    currentGraph: 'K3',
+    graphInstances: [],
+    currentInstances: {},
+    nodeLabelSettings: {},
+    edgeLabelSettings: {},
+    customGraphs: [],
+    customGraphsFile: '',
+    hiddenEdgeTypes: {},
+    viewports: {},
+    layouts: {},
+    storeGraphsInFiles: true,
+    graphFolder: 'Systematics',
+    embeddingProvider: 'server',
+    embeddingServerUrl: DEFAULT_SERVER_URL,
+    embeddingApiToken: '',
+    embeddingHealthTimeout: 5,
+    embeddingRequestTimeout: 30,
+    openaiEmbeddingUrl: DEFAULT_OPENAI_URL,
+    openaiEmbeddingModel: DEFAULT_OPENAI_MODEL,
+    openaiEmbeddingKey: ''
 };
 
 export default class SystematicsPlugin extends Plugin {
     settings: SystematicsSettings;
+    fileGraphs: GraphGeometry[] = []; // Custom graphs loaded from customGraphsFile
+    graphFiles: GraphFileStore; // Graph instances stored as .systematics.md notes
+    embeds: Set<GraphEmbed> = new Set(); // Rendered ```systematics blocks
+    private documents: Map<string, GraphDocument> = new Map(); // Instance id → document
 
     async onload() {
         await this.loadSettings();
+        this.graphFiles = new GraphFileStore(this.app);
+
+        // Load custom graph definitions and graph files once the vault is ready, and keep them in sync
+        this.app.workspace.onLayoutReady(() => {
+            this.graphFiles.refresh();
+            this.loadGraphFile();
+        });
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                if (file.path === this.settings.customGraphsFile.trim()) {
+                    this.loadGraphFile();
+                }
+            })
+        );
+
+        this.registerEvent(
+            this.app.metadataCache.on('changed', (file) => {
+                if (isGraphFile(file)) {
+                    this.onGraphFileChanged(file.path);
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file) => {
+                if (isGraphFile(file)) {
+                    this.onGraphFileChanged(file.path);
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('rename', (file, oldPath) => {
+                if (!oldPath.endsWith(GRAPH_FILE_SUFFIX)) return;
+
+                // Keep the renamed instance selected, with its zoom and pan
+                for (const [graph, id] of Object.entries(this.settings.currentInstances)) {
+                    if (id === oldPath) {
+                        this.settings.currentInstances[graph] = file.path;
+                        this.saveSettings();
+                    }
+                }
+                if (this.settings.viewports[oldPath]) {
+                    this.settings.viewports[file.path] = this.settings.viewports[oldPath];
+                    delete this.settings.viewports[oldPath];
+                    this.saveSettings();
+                }
+                this.onGraphFileChanged(oldPath);
+            })
+        );
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu, file) => {
+                if (!(file instanceof TFile)) return;
+                if (isGraphFile(file)) {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle('Open in Systematics graph')
+                            .setIcon('git-fork')
+                            .onClick(() => this.openGraphFile(file));
+                    });
+                } else if (GraphImporter.canImport(file)) {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle('Import as Systematics graph')
+                            .setIcon('git-fork')
+                            .onClick(() => this.importGraph(file));
+                    });
+                }
+            })
+        );
+
+        // Render ```systematics code blocks as embedded graphs
+        this.registerMarkdownCodeBlockProcessor('systematics', (source, el, ctx) => {
+            ctx.addChild(new GraphEmbed(el, this, source, ctx.sourcePath));
+        });
 
         // Register the custom views
         this.registerView(
@@ -25,6 +131,11 @@ export default class SystematicsPlugin extends Plugin {
             (leaf) => new SemanticMonadView(leaf, this)
         );
 
+        this.registerView(
+            VIEW_TYPE_CONTEXTUAL_SEARCH,
+            (leaf) => new ContextualSearchView(leaf, this)
+        );
+
         // Add ribbon icons
         this.addRibbonIcon('git-fork', 'Open Systematics Graph', () => {
             this.activateView();
@@ -34,6 +145,10 @@ export default class SystematicsPlugin extends Plugin {
             this.activateSemanticMonad();
         });
 
+        this.addRibbonIcon('text-search', 'Open Keyword Search', () => {
+            this.activateContextualSearch();
+        });
+
         // Add commands to open the views
         this.addCommand({
             id: 'open-systematics-graph',
@@ -43,6 +158,81 @@ export default class SystematicsPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'open-graph-file',
+            name: 'Open current note as systematics graph',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!isGraphFile(file)) return false;
+                if (!checking) {
+                    this.openGraphFile(file);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'import-graph',
+            name: 'Import current canvas or note list as systematics graph',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || isGraphFile(file) || !GraphImporter.canImport(file)) return false;
+                if (!checking) {
+                    this.importGraph(file);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'migrate-graphs-to-files',
+            name: 'Move graph labels from plugin data into vault files',
+            callback: () => {
+                this.migrateGraphsToFiles();
+            }
+        });
+
+        this.addCommand({
+            id: 'export-graph-svg',
+            name: 'Export graph as SVG',
+            checkCallback: (checking: boolean) => {
+                const view = this.getGraphView();
+                if (!view) return false;
+                if (!checking) {
+                    view.exportGraph('svg');
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'export-graph-png',
+            name: 'Export graph as PNG',
+            checkCallback: (checking: boolean) => {
+                const view = this.getGraphView();
+                if (!view) return false;
+                if (!checking) {
+                    new ScaleSuggestModal(this.app, PNG_SCALES, EXPORT_SIZE, (scale) => {
+                        view.exportGraph('png', scale);
+                    }).open();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'export-graph-canvas',
+            name: 'Export graph as Canvas',
+            checkCallback: (checking: boolean) => {
+                const view = this.getGraphView();
+                if (!view) return false;
+                if (!checking) {
+                    view.exportGraph('canvas');
+                }
+                return true;
+            }
+        });
+
         this.addCommand({
             id: 'open-semantic-search',
             name: 'Open Semantic Search',
@@ -51,15 +241,62 @@ export default class SystematicsPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'open-keyword-search',
+            name: 'Open Keyword Search (no embedding server needed)',
+            callback: () => {
+                this.activateContextualSearch();
+            }
+        });
+
+        this.addCommand({
+            id: 'map-monad-to-lens',
+            name: 'Map semantic monad onto Kn lens',
+            callback: () => {
+                this.chooseLensForMonad();
+            }
+        });
+
         // Add settings tab
         this.addSettingTab(new SystematicsSettingTab(this.app, this));
     }
 
     async activateView() {
+        await this.revealView(VIEW_TYPE_SYSTEMATICS);
+    }
+
+    async activateSemanticMonad() {
+        await this.revealView(VIEW_TYPE_SEMANTIC_MONAD);
+    }
+
+    /**
+     * Open the keyword-only monad explorer, optionally running a search straight away
+     */
+    async activateContextualSearch(query?: string) {
+        await this.revealView(VIEW_TYPE_CONTEXTUAL_SEARCH);
+
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CONTEXTUAL_SEARCH)[0];
+        if (query && leaf?.view instanceof ContextualSearchView) {
+            await leaf.view.searchFor(query);
+        }
+    }
+
+    /**
+     * The open graph view, if any
+     */
+    getGraphView(): SystematicsGraphView | null {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS)[0];
+        return leaf?.view instanceof SystematicsGraphView ? leaf.view : null;
+    }
+
+    /**
+     * Reveal the first leaf of a view type, creating it in the right sidebar if needed
+     */
+    async revealView(viewType: string) {
         const { workspace } = this.app;
 
         let leaf: WorkspaceLeaf | null = null;
-        const leaves = workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS);
+        const leaves = workspace.getLeavesOfType(viewType);
 
         if (leaves.length > 0) {
             // A leaf with our view already exists, use that
@@ -68,7 +305,7 @@ export default class SystematicsPlugin extends Plugin {
             // Our view could not be found in the workspace, create a new leaf
             // in the right sidebar for it
             leaf = workspace.getRightLeaf(false);
-            await leaf?.setViewState({ type: VIEW_TYPE_SYSTEMATICS, active: true });
+            await leaf?.setViewState({ type: viewType, active: true });
         }
 
         // Reveal the leaf in case it is in a collapsed sidebar
@@ -77,25 +314,537 @@ export default class SystematicsPlugin extends Plugin {
         }
     }
 
-    async activateSemanticMonad() {
-        const { workspace } = this.app;
+    /**
+     * Show a dyad in the K2 lens of the graph view
+     */
+    async openDyadView(dyadView: DyadView) {
+        await this.activateView();
 
-        let leaf: WorkspaceLeaf | null = null;
-        const leaves = workspace.getLeavesOfType(VIEW_TYPE_SEMANTIC_MONAD);
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS)[0];
+        if (leaf?.view instanceof SystematicsGraphView) {
+            leaf.view.showDyad(dyadView);
+        }
+    }
 
-        if (leaves.length > 0) {
-            // A leaf with our view already exists, use that
-            leaf = leaves[0];
+    /**
+     * Show a monad's conceptual nodes on the matching Kn geometry of the graph view
+     */
+    async openSystematicView(systematicView: SystematicView, graph?: GraphGeometry) {
+        await this.activateView();
+
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS)[0];
+        if (leaf?.view instanceof SystematicsGraphView) {
+            leaf.view.showSystematicView(systematicView, graph);
+        }
+    }
+
+    /**
+     * Ask for a geometry, then map the current semantic monad onto it
+     */
+    chooseLensForMonad() {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SEMANTIC_MONAD)[0];
+        const view = leaf?.view instanceof SemanticMonadView ? leaf.view : null;
+
+        if (!view || !view.currentMonad) {
+            new Notice('Open Semantic Search and run a search first');
+            return;
+        }
+
+        // A lens needs at least three conceptual nodes (dyads come from polarity detection)
+        const graphs = this.getGraphs().filter(graph => graph.order >= 3);
+        new GraphSuggestModal(this.app, graphs, (graph) => {
+            view.mapToLens(graph);
+        }).open();
+    }
+
+    /**
+     * All available geometries: built-in first, then custom graphs from settings and file
+     */
+    getGraphs(): GraphGeometry[] {
+        const graphs = [...BUILTIN_GRAPHS];
+        const names = new Set(graphs.map(graph => graph.name));
+
+        for (const graph of [...this.settings.customGraphs, ...this.fileGraphs]) {
+            if (names.has(graph.name)) continue;
+            names.add(graph.name);
+            graphs.push(graph);
+        }
+
+        return graphs;
+    }
+
+    getGraph(name: string): GraphGeometry | undefined {
+        return this.getGraphs().find(graph => graph.name === name);
+    }
+
+    /**
+     * Named instances of a geometry: those kept in plugin data, then graph files in the vault
+     * (just its default instance until others are created)
+     */
+    getInstances(graphName: string): GraphInstance[] {
+        const instances = [
+            ...this.settings.graphInstances.filter(instance => instance.graph === graphName),
+            ...this.graphFiles.getInstances(graphName)
+        ];
+        return instances.length > 0 ? instances : [{ id: graphName, name: 'Default', graph: graphName }];
+    }
+
+    getCurrentInstance(graphName: string): GraphInstance {
+        const instances = this.getInstances(graphName);
+        return instances.find(instance => instance.id === this.settings.currentInstances[graphName]) || instances[0];
+    }
+
+    async selectInstance(instance: GraphInstance) {
+        this.settings.currentInstances[instance.graph] = instance.id;
+        await this.saveSettings();
+    }
+
+    /**
+     * Labels, links and edge visibility of an instance (cached until its storage changes)
+     */
+    getDocument(instance: GraphInstance): GraphDocument {
+        let doc = this.documents.get(instance.id);
+        if (!doc) {
+            doc = instance.file ? this.graphFiles.read(instance) : {
+                graph: instance.graph,
+                name: instance.name,
+                nodes: this.settings.nodeLabelSettings[instance.id] || {},
+                edges: this.settings.edgeLabelSettings[instance.id] || {},
+                hiddenEdgeTypes: this.settings.hiddenEdgeTypes[instance.id] || [],
+                layout: this.settings.layouts[instance.id]
+            };
+            this.documents.set(instance.id, doc);
+        }
+        return doc;
+    }
+
+    /**
+     * Persist an instance's document to its graph file or plugin data
+     * Instances still in plugin data move into a graph file when file storage is enabled
+     */
+    async saveDocument(instance: GraphInstance) {
+        const doc = this.getDocument(instance);
+
+        if (instance.file) {
+            await this.graphFiles.write(instance.file, doc);
+            return;
+        }
+
+        if (this.settings.storeGraphsInFiles) {
+            await this.moveToFile(instance);
+            return;
+        }
+
+        this.settings.nodeLabelSettings[instance.id] = doc.nodes;
+        this.settings.edgeLabelSettings[instance.id] = doc.edges;
+        if (doc.hiddenEdgeTypes.length > 0) {
+            this.settings.hiddenEdgeTypes[instance.id] = doc.hiddenEdgeTypes;
         } else {
-            // Our view could not be found in the workspace, create a new leaf
-            // in the right sidebar for it
-            leaf = workspace.getRightLeaf(false);
-            await leaf?.setViewState({ type: VIEW_TYPE_SEMANTIC_MONAD, active: true });
+            delete this.settings.hiddenEdgeTypes[instance.id];
+        }
+        if (doc.layout && Object.keys(doc.layout).length > 0) {
+            this.settings.layouts[instance.id] = doc.layout;
+        } else {
+            delete this.settings.layouts[instance.id];
         }
+        await this.saveSettings();
+    }
 
-        // Reveal the leaf in case it is in a collapsed sidebar
-        if (leaf) {
-            workspace.revealLeaf(leaf);
+    getViewport(instance: GraphInstance): GraphViewport | undefined {
+        return this.settings.viewports[instance.id];
+    }
+
+    /**
+     * Remember an instance's zoom and pan (undefined for the default)
+     * Always kept in plugin data, so looking around a graph never modifies its graph file
+     */
+    async saveViewport(instance: GraphInstance, viewport: GraphViewport | undefined) {
+        if (viewport) {
+            this.settings.viewports[instance.id] = viewport;
+        } else {
+            delete this.settings.viewports[instance.id];
+        }
+        // Embeds do not show the viewport, so they need no refresh
+        await this.saveData(this.settings);
+    }
+
+    /**
+     * Forget cached documents, e.g. after their storage keys changed
+     */
+    forgetDocuments() {
+        this.documents.clear();
+    }
+
+    /**
+     * Create (and select) a new instance, optionally copying another instance's labels and links
+     */
+    async createInstance(graphName: string, name: string, copyFrom?: GraphInstance): Promise<GraphInstance> {
+        const doc: GraphDocument = copyFrom
+            ? { ...JSON.parse(JSON.stringify(this.getDocument(copyFrom))), graph: graphName, name }
+            : { graph: graphName, name, nodes: {}, edges: {}, hiddenEdgeTypes: [] };
+
+        // Persist the implicit default so it stays listed next to the new instance
+        const isImplicitDefault = !this.settings.graphInstances.some(i => i.graph === graphName) &&
+            this.graphFiles.getInstances(graphName).length === 0;
+
+        let instance: GraphInstance;
+
+        if (this.settings.storeGraphsInFiles) {
+            if (isImplicitDefault) {
+                await this.moveToFile(this.getInstances(graphName)[0]);
+            }
+            instance = await this.graphFiles.create(this.settings.graphFolder, doc);
+        } else {
+            if (isImplicitDefault) {
+                this.settings.graphInstances.push(...this.getInstances(graphName));
+            }
+
+            instance = {
+                id: `${graphName}#${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+                name,
+                graph: graphName
+            };
+            this.settings.graphInstances.push(instance);
+            this.settings.nodeLabelSettings[instance.id] = doc.nodes;
+            this.settings.edgeLabelSettings[instance.id] = doc.edges;
+            if (doc.hiddenEdgeTypes.length > 0) {
+                this.settings.hiddenEdgeTypes[instance.id] = doc.hiddenEdgeTypes;
+            }
+            if (doc.layout) {
+                this.settings.layouts[instance.id] = doc.layout;
+            }
+        }
+
+        const viewport = copyFrom && this.settings.viewports[copyFrom.id];
+        if (viewport) {
+            this.settings.viewports[instance.id] = { ...viewport };
+        }
+
+        this.documents.set(instance.id, doc);
+        this.settings.currentInstances[graphName] = instance.id;
+        await this.saveSettings();
+        return instance;
+    }
+
+    async renameInstance(instance: GraphInstance, name: string) {
+        const doc = this.getDocument(instance);
+        doc.name = name;
+
+        if (instance.file) {
+            // The vault rename event re-keys the selection and cache
+            await this.graphFiles.rename(instance.file, doc);
+            return;
+        }
+
+        const stored = this.settings.graphInstances.find(i => i.id === instance.id);
+        if (stored) {
+            stored.name = name;
+        } else {
+            this.settings.graphInstances.push({ ...instance, name });
+        }
+        await this.saveSettings();
+    }
+
+    async deleteInstance(instance: GraphInstance) {
+        if (instance.file) {
+            await this.graphFiles.trash(instance.file);
+        }
+
+        this.settings.graphInstances = this.settings.graphInstances.filter(i => i.id !== instance.id);
+        for (const data of this.getInstanceData()) {
+            delete data[instance.id];
+        }
+        this.documents.delete(instance.id);
+
+        if (this.settings.currentInstances[instance.graph] === instance.id) {
+            delete this.settings.currentInstances[instance.graph];
+        }
+        await this.saveSettings();
+    }
+
+    /**
+     * Settings maps keyed by instance id
+     */
+    getInstanceData(): { [instanceId: string]: unknown }[] {
+        return [
+            this.settings.nodeLabelSettings,
+            this.settings.edgeLabelSettings,
+            this.settings.hiddenEdgeTypes,
+            this.settings.viewports,
+            this.settings.layouts
+        ];
+    }
+
+    /**
+     * Move an instance from plugin data into a new graph file
+     */
+    async moveToFile(instance: GraphInstance): Promise<GraphInstance> {
+        const doc = this.getDocument(instance);
+        const wasCurrent = this.getCurrentInstance(instance.graph).id === instance.id;
+
+        const fileInstance = await this.graphFiles.create(this.settings.graphFolder, doc);
+        const viewport = this.settings.viewports[instance.id];
+
+        this.settings.graphInstances = this.settings.graphInstances.filter(i => i.id !== instance.id);
+        for (const data of this.getInstanceData()) {
+            delete data[instance.id];
+        }
+        if (viewport) {
+            this.settings.viewports[fileInstance.id] = viewport;
+        }
+        this.documents.delete(instance.id);
+        this.documents.set(fileInstance.id, doc);
+
+        if (wasCurrent) {
+            this.settings.currentInstances[instance.graph] = fileInstance.id;
+        }
+        await this.saveSettings();
+        return fileInstance;
+    }
+
+    /**
+     * Move every instance kept in plugin data (including labels saved before instances
+     * existed) into graph files
+     */
+    async migrateGraphsToFiles() {
+        const ids = new Set<string>(this.settings.graphInstances.map(instance => instance.id));
+        for (const data of this.getInstanceData()) {
+            Object.keys(data).forEach(id => ids.add(id));
+        }
+
+        let moved = 0;
+        for (const id of ids) {
+            const instance = this.settings.graphInstances.find(i => i.id === id) ||
+                { id, name: 'Default', graph: id };
+            const doc = this.getDocument(instance);
+
+            const isEmpty = Object.keys(doc.nodes).length === 0 &&
+                Object.keys(doc.edges).length === 0 &&
+                doc.hiddenEdgeTypes.length === 0 &&
+                Object.keys(doc.layout || {}).length === 0;
+
+            if (isEmpty && !this.settings.graphInstances.some(i => i.id === id)) {
+                // Nothing worth a file: just drop the empty entries
+                for (const data of this.getInstanceData()) {
+                    delete data[id];
+                }
+                this.documents.delete(id);
+                continue;
+            }
+
+            await this.moveToFile(instance);
+            moved++;
+        }
+
+        await this.saveSettings();
+        this.refreshGraphViews();
+
+        const folder = this.settings.graphFolder.trim() || 'the vault root';
+        new Notice(moved > 0
+            ? `Moved ${moved} graph${moved === 1 ? '' : 's'} into ${folder}`
+            : 'No graphs left in plugin data');
+    }
+
+    /**
+     * Open a graph file in the graph view
+     */
+    async openGraphFile(file: TFile) {
+        const instance = this.graphFiles.getInstance(file);
+        if (!instance) {
+            new Notice(`${file.name} has no "systematics-graph" property naming its graph`);
+            return;
+        }
+        if (!this.getGraph(instance.graph)) {
+            new Notice(`Unknown graph "${instance.graph}" in ${file.name}`);
+            return;
+        }
+
+        await this.openInstance(instance);
+    }
+
+    /**
+     * Select an instance and show it in the graph view
+     */
+    async openInstance(instance: GraphInstance) {
+        this.settings.currentGraph = instance.graph;
+        this.settings.currentInstances[instance.graph] = instance.id;
+        await this.saveSettings();
+
+        await this.activateView();
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS)[0];
+        if (leaf?.view instanceof SystematicsGraphView) {
+            leaf.view.loadGraph(instance.graph);
+        }
+    }
+
+    /**
+     * Map the cards of a canvas, or the wikilinks of a note, onto the Kn with one vertex each
+     * A regular Kn is added to the custom graphs when no graph of that name exists yet
+     */
+    async importGraph(file: TFile) {
+        let vertices: NodeLabelSettings[number][];
+        try {
+            vertices = await new GraphImporter(this.app).readVertices(file);
+        } catch (error) {
+            new Notice(`Could not import ${file.name}: ${error.message}`);
+            return;
+        }
+
+        const order = vertices.length;
+        if (order < 2 || order > 64) {
+            new Notice(`${file.name} has ${order} ${file.extension === 'canvas' ? 'cards' : 'linked notes'}; a graph needs between 2 and 64`);
+            return;
+        }
+
+        const graphName = `K${order}`;
+        if (!this.getGraph(graphName)) {
+            this.settings.customGraphs.push({
+                name: graphName,
+                order,
+                vertices: generateRegularPolygon(order),
+                edges: generateCompleteGraphEdges(order)
+            });
+            await this.saveSettings();
+            this.refreshGraphViews();
+        }
+
+        const takenNames = new Set(this.getInstances(graphName).map(instance => instance.name));
+        let name = file.basename;
+        for (let i = 2; takenNames.has(name); i++) {
+            name = `${file.basename} ${i}`;
+        }
+
+        const instance = await this.createInstance(graphName, name);
+        const doc = this.getDocument(instance);
+        vertices.forEach((vertex, index) => {
+            doc.nodes[index] = vertex;
+        });
+        await this.saveDocument(instance);
+
+        new Notice(`Imported ${order} vertices from ${file.name} into ${graphName}`);
+        await this.openInstance(instance);
+    }
+
+    /**
+     * A graph file was edited, renamed or deleted: rescan and redraw
+     */
+    onGraphFileChanged(path: string) {
+        this.documents.delete(path);
+        this.graphFiles.refresh();
+
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS)) {
+            if (leaf.view instanceof SystematicsGraphView) {
+                leaf.view.onGraphDocumentChanged();
+            }
+        }
+        this.refreshEmbeds();
+    }
+
+    /**
+     * Load custom graph definitions from the configured vault file
+     */
+    async loadGraphFile() {
+        this.fileGraphs = [];
+
+        const path = this.settings.customGraphsFile.trim();
+        if (path) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                try {
+                    this.fileGraphs = parseGraphDefinitions(await this.app.vault.cachedRead(file));
+                } catch (error) {
+                    new Notice(`Could not load custom graphs from ${path}: ${error.message}`, 8000);
+                }
+            } else {
+                new Notice(`Custom graphs file not found: ${path}`);
+            }
+        }
+
+        this.refreshGraphViews();
+    }
+
+    /**
+     * Update graph selectors and embeds after the set of geometries changed
+     */
+    refreshGraphViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SYSTEMATICS)) {
+            if (leaf.view instanceof SystematicsGraphView) {
+                leaf.view.refreshGraphSelector();
+            }
+        }
+        this.refreshEmbeds();
+    }
+
+    /**
+     * Re-resolve embedded graphs, e.g. after graph files were scanned or an instance was saved
+     */
+    refreshEmbeds() {
+        for (const embed of this.embeds) {
+            embed.refresh();
+        }
+    }
+
+    /**
+     * Connection settings for the embedding server
+     */
+    getEmbeddingConfig(): EmbeddingServerConfig {
+        return {
+            serverUrl: this.settings.embeddingServerUrl,
+            apiToken: this.settings.embeddingApiToken,
+            healthTimeout: this.settings.embeddingHealthTimeout * 1000,
+            requestTimeout: this.settings.embeddingRequestTimeout * 1000
+        };
+    }
+
+    /**
+     * The embedding provider selected in settings
+     */
+    createEmbeddingProvider(): EmbeddingProvider {
+        if (this.settings.embeddingProvider === 'local') {
+            return new HashedEmbeddingProvider(this.app, normalizePath(`${this.manifest.dir}/builtin-embeddings.json`));
+        }
+        if (this.settings.embeddingProvider === 'openai') {
+            return new OpenAIEmbeddingProvider({
+                baseUrl: this.settings.openaiEmbeddingUrl,
+                model: this.settings.openaiEmbeddingModel || DEFAULT_OPENAI_MODEL,
+                apiKey: this.settings.openaiEmbeddingKey,
+                requestTimeout: this.settings.embeddingRequestTimeout * 1000
+            });
+        }
+        return new EmbeddingService(this.getEmbeddingConfig());
+    }
+
+    /**
+     * Switch semantic search to the built-in embeddings, which need no server
+     */
+    async useBuiltinEmbeddings() {
+        this.settings.embeddingProvider = 'local';
+        await this.saveSettings();
+        this.refreshEmbeddingProviders();
+        new Notice('Using built-in embeddings. Re-index the vault to embed your notes with them.');
+    }
+
+    /**
+     * Give open semantic views a provider for the current settings
+     */
+    refreshEmbeddingProviders() {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SEMANTIC_MONAD)) {
+            if (leaf.view instanceof SemanticMonadView) {
+                leaf.view.setEmbeddingProvider(this.createEmbeddingProvider());
+            }
+        }
+    }
+
+    /**
+     * Open a dyad pole as a new monad in the semantic view
+     * @param parentId Id of the monad the dyad belongs to, so the pole nests beneath it
+     */
+    async openPoleAsMonad(pole: ConceptualNode, parentId?: string) {
+        await this.activateSemanticMonad();
+
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SEMANTIC_MONAD)[0];
+        if (leaf?.view instanceof SemanticMonadView) {
+            await leaf.view.openPole(pole, parentId);
         }
     }
 
@@ -104,11 +853,28 @@ export default class SystematicsPlugin extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+        // Existing installs keep their graphs in plugin data until they opt into graph files
+        if (data && data.storeGraphsInFiles === undefined) {
+            this.settings.storeGraphsInFiles = false;
+        }
+
+        // A phone cannot run the embedding server, so start mobile users on the built-in embeddings
+        if (!data?.embeddingProvider && Platform.isMobile) {
+            this.settings.embeddingProvider = 'local';
+        }
+
+        // Graphs used to be selected by order (3-12); they are now selected by name
+        if (typeof data?.currentGraph === 'number') {
+            this.settings.currentGraph = `K${data.currentGraph}`;
+        }
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
+        this.refreshEmbeds();
     }
 }
 
@@ -129,18 +895,22 @@ class SystematicsSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Default Graph')
-            .setDesc('Select which graph (K3-K12) to display by default')
+            .setDesc('Select which graph to display by default')
             .addDropdown(dropdown => {
-                for (let i = 3; i <= 12; i++) {
-                    dropdown.addOption(i.toString(), `K${i}`);
+                for (const graph of this.plugin.getGraphs()) {
+                    dropdown.addOption(graph.name, graph.name);
                 }
-                dropdown.setValue(this.plugin.settings.currentGraph.toString());
+                dropdown.setValue(this.plugin.settings.currentGraph);
                 dropdown.onChange(async (value) => {
-                    this.plugin.settings.currentGraph = parseInt(value);
+                    this.plugin.settings.currentGraph = value;
                     await this.plugin.saveSettings();
                 });
             });
 
+        this.displayCustomGraphs(containerEl);
+        this.displayGraphFiles(containerEl);
+        this.displayEmbeddings(containerEl);
+
         containerEl.createEl('h3', { text: 'About' });
         containerEl.createEl('p', {
             text: 'This plugin allows you to view and organize your notes using complete graph (Kn) visualizations. Click on nodes to label them and link them to your notes.'
@@ -149,9 +919,323 @@ class SystematicsSettingTab extends PluginSettingTab {
         containerEl.createEl('h3', { text: 'Usage' });
         const usageList = containerEl.createEl('ul');
         usageList.createEl('li', { text: 'Click the graph icon in the ribbon or use the command palette to open the Systematics Graph view' });
-        usageList.createEl('li', { text: 'Select a graph type (K3-K12) from the dropdown' });
+        usageList.createEl('li', { text: 'Select a graph type (K2-K12, or one of your custom graphs) from the dropdown' });
         usageList.createEl('li', { text: 'Click on any node to set a custom label and link it to a note' });
         usageList.createEl('li', { text: 'Nodes with linked notes will appear in blue' });
         usageList.createEl('li', { text: 'Click on a linked node and select "Open linked note" to navigate to that note' });
+        usageList.createEl('li', { text: 'Without the embedding server, use "Open Keyword Search" for a keyword-only monad explorer' });
+    }
+
+    displayCustomGraphs(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Custom Graphs' });
+        containerEl.createEl('p', {
+            text: 'Define your own systems beyond K2-K12, including non-complete graphs with chosen edges. Custom graphs appear in every graph selector.',
+            cls: 'setting-item-description'
+        });
+
+        let newOrder = '';
+        new Setting(containerEl)
+            .setName('Add regular graph')
+            .setDesc('Add a complete graph Kn with vertices on a regular polygon (e.g. 13 for K13)')
+            .addText(text => text
+                .setPlaceholder('n')
+                .onChange(value => {
+                    newOrder = value;
+                }))
+            .addButton(btn => btn
+                .setButtonText('Add')
+                .onClick(async () => {
+                    const order = parseInt(newOrder);
+                    if (isNaN(order) || order < 1 || order > 64) {
+                        new Notice('Enter a number of vertices between 1 and 64');
+                        return;
+                    }
+                    await this.addCustomGraph({
+                        name: `K${order}`,
+                        order,
+                        vertices: generateRegularPolygon(order),
+                        edges: generateCompleteGraphEdges(order)
+                    });
+                }));
+
+        new Setting(containerEl)
+            .setName('Add custom graph')
+            .setDesc('Define vertex positions, labels and edges as JSON')
+            .addButton(btn => btn
+                .setButtonText('Define...')
+                .onClick(() => {
+                    const template = serializeGraphDefinition({
+                        name: 'My System',
+                        order: 4,
+                        vertices: generateRegularPolygon(4),
+                        edges: [{ from: 0, to: 1 }, { from: 1, to: 2 }, { from: 2, to: 3 }, { from: 3, to: 0 }]
+                    });
+                    new GraphDefinitionModal(this.app, 'Add custom graph', template, (graph) => {
+                        this.addCustomGraph(graph);
+                    }).open();
+                }));
+
+        const list = containerEl.createDiv({ cls: 'systematics-custom-graph-list' });
+        this.plugin.settings.customGraphs.forEach((graph, index) => {
+            new Setting(list)
+                .setName(graph.name)
+                .setDesc(`${graph.order} vertices, ${graph.edges.length} edges`)
+                .addButton(btn => btn
+                    .setButtonText('Edit')
+                    .onClick(() => {
+                        new GraphDefinitionModal(this.app, `Edit ${graph.name}`, serializeGraphDefinition(graph), (updated) => {
+                            this.updateCustomGraph(index, updated);
+                        }).open();
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('Delete')
+                    .setWarning()
+                    .onClick(async () => {
+                        this.plugin.settings.customGraphs.splice(index, 1);
+                        if (this.plugin.settings.currentGraph === graph.name) {
+                            this.plugin.settings.currentGraph = DEFAULT_SETTINGS.currentGraph;
+                        }
+                        // Graph files are notes of their own and stay in the vault
+                        for (const instance of this.plugin.getInstances(graph.name).filter(i => !i.file)) {
+                            await this.plugin.deleteInstance(instance);
+                        }
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshGraphViews();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Custom graphs file')
+            .setDesc('Vault path to a JSON file (or a note with a ```json block) holding an array of graph definitions. Reloaded when the file changes.')
+            .addText(text => text
+                .setPlaceholder('Systematics/graphs.json')
+                .setValue(this.plugin.settings.customGraphsFile)
+                .onChange(async (value) => {
+                    this.plugin.settings.customGraphsFile = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Load')
+                .onClick(async () => {
+                    await this.plugin.loadGraphFile();
+                    new Notice(`Loaded ${this.plugin.fileGraphs.length} graph${this.plugin.fileGraphs.length === 1 ? '' : 's'} from file`);
+                    this.display();
+                }));
+    }
+
+    displayGraphFiles(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Graph Files' });
+        containerEl.createEl('p', {
+            text: `Graph instances can live in ${GRAPH_FILE_SUFFIX} notes whose frontmatter holds the graph, labels and linked notes, so they can be linked, versioned and shared like any other note.`,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Store graphs in vault files')
+            .setDesc('Save new and edited instances as graph files instead of plugin data')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.storeGraphsInFiles)
+                .onChange(async (value) => {
+                    this.plugin.settings.storeGraphsInFiles = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Graph folder')
+            .setDesc('Folder for new graph files')
+            .addText(text => text
+                .setPlaceholder('Systematics')
+                .setValue(this.plugin.settings.graphFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.graphFolder = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Move existing graphs into files')
+            .setDesc('Create a graph file for every instance and label set still kept in plugin data')
+            .addButton(btn => btn
+                .setButtonText('Migrate')
+                .onClick(async () => {
+                    await this.plugin.migrateGraphsToFiles();
+                    this.display();
+                }));
+    }
+
+    displayEmbeddings(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Embeddings' });
+        containerEl.createEl('p', {
+            text: 'Semantic search sends note text to an embedding backend: the systematics-embeddings server, or any OpenAI-compatible /v1/embeddings API such as Ollama, the llama.cpp server or LM Studio.',
+            cls: 'setting-item-description'
+        });
+
+        const settings = this.plugin.settings;
+        const saveConnection = async () => {
+            await this.plugin.saveSettings();
+            this.plugin.refreshEmbeddingProviders();
+        };
+
+        new Setting(containerEl)
+            .setName('Embedding provider')
+            .setDesc('Notes are re-embedded on the next index after switching, since vectors from different models cannot be compared')
+            .addDropdown(dropdown => dropdown
+                .addOption('server', 'Systematics embedding server')
+                .addOption('openai', 'OpenAI-compatible API')
+                .addOption('local', 'Built-in (offline, keyword-based)')
+                .setValue(settings.embeddingProvider)
+                .onChange(async (value) => {
+                    settings.embeddingProvider = value as EmbeddingProviderType;
+                    await saveConnection();
+                    this.display();
+                }));
+
+        if (settings.embeddingProvider === 'local') {
+            containerEl.createEl('p', {
+                text: 'Built-in embeddings weigh the words and word pairs of each note by how rare they are in the vault. They need no server and work on mobile, but match shared vocabulary rather than meaning.',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
+
+        if (settings.embeddingProvider === 'openai') {
+            this.addConnectionText(containerEl, 'API URL', 'Base URL up to and including /v1 (Ollama: http://localhost:11434/v1, LM Studio: http://localhost:1234/v1)',
+                DEFAULT_OPENAI_URL, 'openaiEmbeddingUrl', saveConnection);
+            this.addConnectionText(containerEl, 'Model', 'Embedding model to request, e.g. nomic-embed-text or text-embedding-3-small',
+                DEFAULT_OPENAI_MODEL, 'openaiEmbeddingModel', saveConnection);
+            this.addConnectionText(containerEl, 'API key', 'Sent as an Authorization: Bearer header. Local servers usually need none.',
+                '', 'openaiEmbeddingKey', saveConnection, true);
+        } else {
+            this.addConnectionText(containerEl, 'Server URL', 'Base URL of the embedding server',
+                DEFAULT_SERVER_URL, 'embeddingServerUrl', saveConnection);
+            this.addConnectionText(containerEl, 'API token', 'Sent as an Authorization: Bearer header. Leave empty when the server has no token.',
+                '', 'embeddingApiToken', saveConnection, true);
+            this.addSecondsSetting(containerEl, 'Health check timeout', 'Seconds to wait for the server to answer a health check',
+                'embeddingHealthTimeout', saveConnection);
+        }
+
+        this.addSecondsSetting(containerEl, 'Request timeout', 'Seconds to wait for an embedding, index or search request',
+            'embeddingRequestTimeout', saveConnection);
+
+        new Setting(containerEl)
+            .setName('Test connection')
+            .setDesc(settings.embeddingProvider === 'openai'
+                ? 'Embed a short text with these settings'
+                : 'Call the server\'s /health endpoint with these settings')
+            .addButton(btn => btn
+                .setButtonText('Test connection')
+                .onClick(async () => {
+                    btn.setDisabled(true);
+                    const provider = this.plugin.createEmbeddingProvider();
+                    try {
+                        await provider.initialize();
+                        const model = provider.getModelInfo();
+                        new Notice(`Connected to ${provider.describe()}: ${model.name} (${model.dimensions} dimensions)`);
+                    } catch (error) {
+                        new Notice(error instanceof Error ? error.message : String(error), 10000);
+                    } finally {
+                        btn.setDisabled(false);
+                    }
+                }));
+    }
+
+    addConnectionText(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        placeholder: string,
+        key: 'embeddingServerUrl' | 'embeddingApiToken' | 'openaiEmbeddingUrl' | 'openaiEmbeddingModel' | 'openaiEmbeddingKey',
+        onSave: () => Promise<void>,
+        secret: boolean = false
+    ) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => {
+                if (secret) text.inputEl.type = 'password';
+                text
+                    .setPlaceholder(placeholder)
+                    .setValue(this.plugin.settings[key])
+                    .onChange(async (value) => {
+                        this.plugin.settings[key] = value.trim();
+                        await onSave();
+                    });
+            });
+    }
+
+    addSecondsSetting(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        key: 'embeddingHealthTimeout' | 'embeddingRequestTimeout',
+        onSave: () => Promise<void>
+    ) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text
+                    .setPlaceholder(String(DEFAULT_SETTINGS[key]))
+                    .setValue(String(this.plugin.settings[key]))
+                    .onChange(async (value) => {
+                        const seconds = parseFloat(value);
+                        this.plugin.settings[key] = isNaN(seconds) || seconds <= 0 ? DEFAULT_SETTINGS[key] : seconds;
+                        await onSave();
+                    });
+            });
+    }
+
+    async addCustomGraph(graph: GraphGeometry) {
+        if (this.plugin.getGraph(graph.name)) {
+            new Notice(`A graph named "${graph.name}" already exists`);
+            return;
+        }
+
+        this.plugin.settings.customGraphs.push(graph);
+        await this.plugin.saveSettings();
+        this.plugin.refreshGraphViews();
+        this.display();
+    }
+
+    async updateCustomGraph(index: number, graph: GraphGeometry) {
+        const previous = this.plugin.settings.customGraphs[index];
+        const settings = this.plugin.settings;
+
+        if (graph.name !== previous.name) {
+            if (this.plugin.getGraph(graph.name)) {
+                new Notice(`A graph named "${graph.name}" already exists`);
+                return;
+            }
+
+            // Carry instances, labels and the current selection over to the new name
+            // (the default instance is keyed by the graph name itself)
+            for (const data of this.plugin.getInstanceData()) {
+                if (data[previous.name] !== undefined) {
+                    data[graph.name] = data[previous.name];
+                    delete data[previous.name];
+                }
+            }
+            for (const instance of settings.graphInstances) {
+                if (instance.graph !== previous.name) continue;
+                instance.graph = graph.name;
+                if (instance.id === previous.name) instance.id = graph.name;
+            }
+            if (settings.currentInstances[previous.name]) {
+                const current = settings.currentInstances[previous.name];
+                settings.currentInstances[graph.name] = current === previous.name ? graph.name : current;
+                delete settings.currentInstances[previous.name];
+            }
+            if (settings.currentGraph === previous.name) {
+                settings.currentGraph = graph.name;
+            }
+            await this.plugin.graphFiles.retarget(previous.name, graph.name);
+            this.plugin.forgetDocuments();
+        }
+
+        settings.customGraphs[index] = graph;
+        await this.plugin.saveSettings();
+        this.plugin.refreshGraphViews();
+        this.display();
     }
 }
@@ -0,0 +1,204 @@
+/**
+ * Canvas Format - Converts systematics graphs to and from Obsidian Canvas (.canvas) JSON
+ * Each vertex becomes a card (a file card for linked notes, a text card otherwise)
+ * placed from the vertex coordinates, and each edge becomes a canvas edge
+ */
+
+import { GraphGeometry, GraphDocument, ConceptualNode, Vertex } from './types';
+import { getEdgeKey } from './graphData';
+
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface CanvasNode {
+    id: string;
+    type: 'text' | 'file' | 'link' | 'group';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    text?: string;
+    file?: string;
+    url?: string;
+    color?: string;
+}
+
+export interface CanvasEdge {
+    id: string;
+    fromNode: string;
+    toNode: string;
+    fromSide?: CanvasSide;
+    toSide?: CanvasSide;
+    fromEnd?: 'none' | 'arrow';
+    toEnd?: 'none' | 'arrow';
+    label?: string;
+    color?: string;
+}
+
+export interface CanvasData {
+    nodes: CanvasNode[];
+    edges: CanvasEdge[];
+}
+
+// Canvas colour presets for edge types (1 red, 2 orange, 3 yellow, 4 green, 5 cyan, 6 purple)
+const EDGE_TYPE_COLORS: { [type: string]: string } = {
+    tension: '1',
+    flow: '4',
+    dynamic: '5'
+};
+
+// Vertex colours stored as theme variables, mapped onto the canvas presets
+const THEME_COLOR_PRESETS: { [cssVar: string]: string } = {
+    '--color-red': '1',
+    '--color-orange': '2',
+    '--color-yellow': '3',
+    '--color-green': '4',
+    '--color-cyan': '5',
+    '--color-purple': '6'
+};
+
+const TEXT_CARD = { width: 240, height: 100 };
+const FILE_CARD = { width: 320, height: 240 };
+
+/**
+ * Card id for a vertex (stable, so exported canvases can be read back in vertex order)
+ */
+export function vertexNodeId(index: number): string {
+    return `systematics-vertex-${index}`;
+}
+
+/**
+ * Build a canvas from a graph and its labels
+ * @param linkText Wikilink text for a note path
+ * @param getLensNode Conceptual node shown at a vertex by an active lens, if any
+ */
+export function buildCanvas(
+    graph: GraphGeometry,
+    doc: GraphDocument,
+    linkText: (path: string) => string,
+    getLensNode?: (vertexIndex: number) => ConceptualNode | null
+): CanvasData {
+    // Spread the layout so cards do not overlap as the order grows
+    const spread = Math.max(450, graph.order * 90);
+
+    const nodes: CanvasNode[] = graph.vertices.map(vertex => {
+        const settings = doc.nodes[vertex.index];
+        const lensNode = getLensNode ? getLensNode(vertex.index) : null;
+        const size = settings?.noteFile && !lensNode ? FILE_CARD : TEXT_CARD;
+
+        const node: CanvasNode = {
+            id: vertexNodeId(vertex.index),
+            type: 'text',
+            // Canvas y grows downwards; geometry y grows upwards
+            x: Math.round(vertex.x * spread - size.width / 2),
+            y: Math.round(-vertex.y * spread - size.height / 2),
+            width: size.width,
+            height: size.height
+        };
+
+        // Canvas cards take a preset number or a hex colour
+        const color = settings?.color;
+        if (color && (THEME_COLOR_PRESETS[color] || color.startsWith('#'))) {
+            node.color = THEME_COLOR_PRESETS[color] || color;
+        }
+
+        if (lensNode) {
+            const noteLinks = lensNode.notes.slice(0, 10).map(path => `- [[${linkText(path)}]]`);
+            node.text = [`## ${lensNode.label}`, '', lensNode.terms.join(', '), '', ...noteLinks].join('\n');
+            node.height = 120 + noteLinks.length * 24;
+        } else if (settings?.noteFile) {
+            node.type = 'file';
+            node.file = settings.noteFile;
+        } else {
+            node.text = `## ${settings?.label || vertex.label}`;
+        }
+
+        return node;
+    });
+
+    const edges: CanvasEdge[] = [];
+    for (const edge of graph.edges) {
+        const from = graph.vertices[edge.from];
+        const to = graph.vertices[edge.to];
+        const settings = doc.edges[getEdgeKey(edge)];
+
+        // Priority: custom label > linked note title > label from the geometry
+        let label = settings?.label || edge.label;
+        if (!settings?.label && settings?.noteFile) {
+            label = noteTitle(settings.noteFile);
+        }
+
+        const canvasEdge: CanvasEdge = {
+            id: `systematics-edge-${getEdgeKey(edge)}`,
+            fromNode: vertexNodeId(edge.from),
+            toNode: vertexNodeId(edge.to),
+            fromSide: facingSide(from, to),
+            toSide: facingSide(to, from),
+            toEnd: edge.directed ? 'arrow' : 'none'
+        };
+        if (label) canvasEdge.label = label;
+        if (edge.type && EDGE_TYPE_COLORS[edge.type]) canvasEdge.color = EDGE_TYPE_COLORS[edge.type];
+
+        edges.push(canvasEdge);
+    }
+
+    return { nodes, edges };
+}
+
+/**
+ * Read the cards of a canvas as vertex labels and notes
+ * Cards exported from a graph keep their vertex order; other cards keep the canvas order.
+ * Groups and empty text cards are skipped.
+ */
+export function parseCanvasCards(source: string): { label: string; noteFile: string }[] {
+    let data: CanvasData;
+    try {
+        data = JSON.parse(source);
+    } catch (error) {
+        throw new Error(`Invalid canvas JSON: ${error.message}`);
+    }
+    if (!Array.isArray(data?.nodes)) {
+        throw new Error('Canvas has no "nodes" list');
+    }
+
+    const vertexIndex = (node: CanvasNode) => {
+        const match = /^systematics-vertex-(\d+)$/.exec(node.id);
+        return match ? parseInt(match[1]) : Infinity;
+    };
+
+    const cards = data.nodes
+        .filter(node => node.type !== 'group')
+        .map((node, position) => ({ node, position }))
+        .sort((a, b) => (vertexIndex(a.node) - vertexIndex(b.node)) || (a.position - b.position))
+        .map(({ node }) => node);
+
+    const result: { label: string; noteFile: string }[] = [];
+    for (const node of cards) {
+        if (node.type === 'file' && node.file) {
+            result.push({ label: '', noteFile: node.file });
+        } else if (node.type === 'link' && node.url) {
+            result.push({ label: node.url, noteFile: '' });
+        } else if (node.type === 'text' && node.text?.trim()) {
+            // The first line of the card, without heading or emphasis markers
+            const firstLine = node.text.trim().split('\n')[0];
+            result.push({ label: firstLine.replace(/^#+\s*/, '').replace(/[*_]/g, '').trim(), noteFile: '' });
+        }
+    }
+    return result;
+}
+
+function noteTitle(path: string): string {
+    return path.split('/').pop()?.replace(/\.md$/, '') || path;
+}
+
+/**
+ * Side of a card that faces another card
+ */
+function facingSide(from: Vertex, to: Vertex): CanvasSide {
+    const dx = to.x - from.x;
+    const dy = -(to.y - from.y); // Canvas coordinates
+
+    if (Math.abs(dx) >= Math.abs(dy)) {
+        return dx >= 0 ? 'right' : 'left';
+    }
+    return dy >= 0 ? 'bottom' : 'top';
+}
@@ -0,0 +1,215 @@
+/**
+ * Cluster Engine - Groups a monad's notes into n conceptual nodes
+ * Maps a semantic monad onto a Kn lens as a SystematicView
+ */
+
+import { ConceptualNode, Edge, SystematicView } from './types';
+import { SemanticMonad, ScoredNote } from './semanticTypes';
+import { cosineSimilarity } from './embeddingProvider';
+import { PolarityEngine } from './polarityEngine';
+import { extractTerms, stripFrontmatter } from './termExtraction';
+
+export class ClusterEngine {
+    private maxIterations: number = 25;
+    private termsPerNode: number = 4;
+
+    constructor() {}
+
+    /**
+     * Cluster a semantic monad into `order` conceptual nodes
+     * @param semanticMonad The monad to map
+     * @param order Number of vertices in the target lens (the n in Kn)
+     * @param edges Edges of the target geometry
+     * @param noteContent Note path → raw markdown content (used for labelling)
+     */
+    buildSystematicView(
+        semanticMonad: SemanticMonad,
+        order: number,
+        edges: Edge[],
+        noteContent: Map<string, string>
+    ): SystematicView {
+        const notes = semanticMonad.notes.filter(n => n.embedding && n.embedding.length > 0);
+
+        if (notes.length < order) {
+            throw new Error(`A lens with ${order} vertices needs at least ${order} notes, but the monad only has ${notes.length}`);
+        }
+
+        const assignments = this.kMeans(notes.map(n => n.embedding), order);
+
+        const clusters: ScoredNote[][] = Array.from({ length: order }, () => []);
+        notes.forEach((note, i) => clusters[assignments[i]].push(note));
+
+        const vertices = this.labelClusters(clusters, semanticMonad, noteContent);
+
+        // Most relevant concept takes the first vertex
+        vertices.sort((a, b) => b.relevance - a.relevance);
+
+        return {
+            monad: PolarityEngine.toMonad(semanticMonad),
+            systemOrder: order,
+            vertices,
+            edges
+        };
+    }
+
+    /**
+     * Spherical k-means (cosine distance) with farthest-first initialization
+     * Deterministic so the same monad always yields the same lens
+     * @returns Cluster index for each vector
+     */
+    private kMeans(vectors: number[][], k: number): number[] {
+        // Seed with the first (most relevant) vector, then repeatedly the farthest one
+        const centroids: number[][] = [vectors[0]];
+        while (centroids.length < k) {
+            let farthest = 0;
+            let farthestDistance = -Infinity;
+
+            vectors.forEach((vector, i) => {
+                const nearest = Math.max(...centroids.map(c => cosineSimilarity(vector, c)));
+                const distance = 1 - nearest;
+                if (distance > farthestDistance) {
+                    farthestDistance = distance;
+                    farthest = i;
+                }
+            });
+
+            centroids.push(vectors[farthest]);
+        }
+
+        let assignments: number[] = new Array(vectors.length).fill(-1);
+
+        for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+            const next = vectors.map(vector => this.nearestCentroid(vector, centroids));
+
+            // Keep every cluster populated: an empty cluster takes the worst-fitting vector
+            for (let c = 0; c < k; c++) {
+                if (next.includes(c)) continue;
+
+                let worst = -1;
+                let worstSimilarity = Infinity;
+                next.forEach((cluster, i) => {
+                    if (next.filter(x => x === cluster).length <= 1) return;
+                    const similarity = cosineSimilarity(vectors[i], centroids[cluster]);
+                    if (similarity < worstSimilarity) {
+                        worstSimilarity = similarity;
+                        worst = i;
+                    }
+                });
+
+                if (worst >= 0) next[worst] = c;
+            }
+
+            const changed = next.some((cluster, i) => cluster !== assignments[i]);
+            assignments = next;
+            if (!changed) break;
+
+            for (let c = 0; c < k; c++) {
+                const members = vectors.filter((_, i) => assignments[i] === c);
+                if (members.length > 0) {
+                    centroids[c] = this.mean(members);
+                }
+            }
+        }
+
+        return assignments;
+    }
+
+    private nearestCentroid(vector: number[], centroids: number[][]): number {
+        let best = 0;
+        let bestSimilarity = -Infinity;
+
+        centroids.forEach((centroid, c) => {
+            const similarity = cosineSimilarity(vector, centroid);
+            if (similarity > bestSimilarity) {
+                bestSimilarity = similarity;
+                best = c;
+            }
+        });
+
+        return best;
+    }
+
+    private mean(vectors: number[][]): number[] {
+        const sum = new Array(vectors[0].length).fill(0);
+        for (const vector of vectors) {
+            for (let i = 0; i < vector.length; i++) {
+                sum[i] += vector[i];
+            }
+        }
+        return sum.map(v => v / vectors.length);
+    }
+
+    /**
+     * Name each cluster by its most distinctive terms
+     * Semantic concepts nearest the cluster centroid come first, then words that are
+     * frequent in the cluster but rare in the other clusters
+     */
+    private labelClusters(
+        clusters: ScoredNote[][],
+        semanticMonad: SemanticMonad,
+        noteContent: Map<string, string>
+    ): ConceptualNode[] {
+        const queryWords = new Set(extractTerms(semanticMonad.query));
+
+        // Document frequency of each term per cluster
+        const clusterFrequencies: Map<string, number>[] = clusters.map(cluster => {
+            const frequency: Map<string, number> = new Map();
+            for (const note of cluster) {
+                const text = `${note.metadata.title}\n${stripFrontmatter(noteContent.get(note.path) || '')}`;
+                for (const term of new Set(extractTerms(text))) {
+                    if (queryWords.has(term)) continue;
+                    frequency.set(term, (frequency.get(term) || 0) + 1);
+                }
+            }
+            return frequency;
+        });
+
+        // Assign each semantic concept to the cluster it sits closest to
+        const centroids = clusters.map(cluster => this.mean(cluster.map(n => n.embedding)));
+        const conceptsByCluster: string[][] = clusters.map(() => []);
+        for (const concept of semanticMonad.concepts) {
+            if (!concept.embedding || concept.embedding.length === 0) continue;
+            const cluster = this.nearestCentroid(concept.embedding, centroids);
+            conceptsByCluster[cluster].push(concept.term);
+        }
+
+        const usedLabels = new Set<string>();
+
+        return clusters.map((cluster, c) => {
+            const size = cluster.length;
+            const otherSize = clusters.reduce((sum, other, o) => o === c ? sum : sum + other.length, 0);
+
+            const distinctive = Array.from(clusterFrequencies[c].entries())
+                .map(([term, count]) => {
+                    let otherCount = 0;
+                    clusterFrequencies.forEach((frequency, o) => {
+                        if (o !== c) otherCount += frequency.get(term) || 0;
+                    });
+                    const score = count / size - (otherSize > 0 ? otherCount / otherSize : 0);
+                    return { term, score };
+                })
+                .filter(t => t.score > 0)
+                .sort((a, b) => b.score - a.score)
+                .map(t => t.term);
+
+            const terms = Array.from(new Set([...conceptsByCluster[c], ...distinctive]))
+                .slice(0, this.termsPerNode);
+
+            // Avoid two vertices sharing the same label
+            const labelTerm = terms.find(t => !usedLabels.has(t)) || cluster[0].metadata.title;
+            usedLabels.add(labelTerm);
+
+            const relevance = cluster.reduce((sum, n) => sum + n.score, 0) / size;
+
+            return {
+                label: labelTerm.charAt(0).toUpperCase() + labelTerm.slice(1),
+                terms,
+                notes: cluster
+                    .slice()
+                    .sort((a, b) => b.score - a.score)
+                    .map(n => n.path),
+                relevance
+            };
+        });
+    }
+}
@@ -13,6 +13,8 @@ export class ContextualSearchView extends ItemView {
     currentMonad: Monad | null = null;
     currentDyadView: DyadView | null = null;
     currentConcepts: string[] = [];
+    monadStack: Monad[] = [];                       // Path from the top-level monad to the current one
+    conceptCache: Map<string, string[]> = new Map(); // Monad id → extracted concepts
     searchInput: HTMLInputElement;
     monadInfo: HTMLElement;
     breadcrumbTrail: HTMLElement;
@@ -33,7 +35,7 @@ export class ContextualSearchView extends ItemView {
     }
 
     getIcon(): string {
-        return 'search';
+        return 'text-search';
     }
 
     async onOpen() {
@@ -116,6 +118,9 @@ export class ContextualSearchView extends ItemView {
         // Set canvas size
         this.resizeCanvas();
         window.addEventListener('resize', () => this.resizeCanvas());
+
+        // Canvas colours come from the theme
+        this.registerEvent(this.app.workspace.on('css-change', () => this.draw()));
     }
 
     resizeCanvas() {
@@ -139,6 +144,14 @@ export class ContextualSearchView extends ItemView {
         }
     }
 
+    /**
+     * Run a top-level search for a query (e.g. handed over from the semantic view)
+     */
+    async searchFor(query: string) {
+        this.searchInput.value = query;
+        await this.handleSearch();
+    }
+
     async handleSearch() {
         const query = this.searchInput.value.trim();
         if (!query) {
@@ -149,28 +162,86 @@ export class ContextualSearchView extends ItemView {
         new Notice('Searching vault...');
 
         try {
-            // Define monad based on search query (simplified - no parent hierarchy)
-            this.currentMonad = await this.defineMonad(query);
+            // A typed topic starts a new top-level monad
+            const monad = await this.defineMonad(query);
+            this.monadStack = [monad];
+            await this.showMonad(monad);
 
-            // Update UI
-            this.updateMonadInfo();
-            this.updateBreadcrumb();
-            this.displayNotes();
+            new Notice(`Found ${monad.noteCount} related notes`);
+        } catch (error) {
+            new Notice('Error searching: ' + error.message);
+            console.error(error);
+        }
+    }
 
-            // Extract and display concepts
-            this.currentConcepts = await this.extractConcepts(this.currentMonad);
-            this.displayConcepts(this.currentConcepts);
+    /**
+     * Drill down into a concept: define a child monad within the current monad's notes
+     */
+    async drillDown(concept: string) {
+        const parent = this.currentMonad;
+        if (!parent) return;
 
-            // Draw visualization with concepts
-            this.draw();
+        try {
+            const existing = parent.children?.find(child => child.query === concept);
+            const monad = existing || await this.defineMonad(concept, parent);
 
-            new Notice(`Found ${this.currentMonad.noteCount} related notes`);
+            this.monadStack.push(monad);
+            this.searchInput.value = concept;
+            await this.showMonad(monad);
         } catch (error) {
             new Notice('Error searching: ' + error.message);
             console.error(error);
         }
     }
 
+    /**
+     * Pop back to an ancestor without re-running its search
+     * @param index Position in the stack, or -1 to return to the whole vault
+     */
+    async popTo(index: number) {
+        if (index < 0) {
+            this.monadStack = [];
+            this.currentMonad = null;
+            this.currentConcepts = [];
+            this.searchInput.value = '';
+            this.updateMonadInfo();
+            this.updateBreadcrumb();
+            this.displayNotes();
+            this.displayConcepts(this.currentConcepts);
+            this.draw();
+            return;
+        }
+
+        this.monadStack = this.monadStack.slice(0, index + 1);
+        const monad = this.monadStack[index];
+        this.searchInput.value = monad.query;
+        await this.showMonad(monad);
+    }
+
+    /**
+     * Make a monad current and refresh the UI
+     */
+    async showMonad(monad: Monad) {
+        this.currentMonad = monad;
+
+        // Update UI
+        this.updateMonadInfo();
+        this.updateBreadcrumb();
+        this.displayNotes();
+
+        // Extract and display concepts (cached for stack navigation)
+        let concepts = this.conceptCache.get(monad.id);
+        if (!concepts) {
+            concepts = await this.extractConcepts(monad);
+            this.conceptCache.set(monad.id, concepts);
+        }
+        this.currentConcepts = concepts;
+        this.displayConcepts(this.currentConcepts);
+
+        // Draw visualization with concepts
+        this.draw();
+    }
+
     /**
      * Auto-derive topic from currently open notes
      * Uses TF-IDF to find the most distinctive term across open notes
@@ -282,12 +353,15 @@ export class ContextualSearchView extends ItemView {
      * 1. Find all notes matching the topic (in title or content)
      * 2. Score by multiple factors: exact match, frequency, position, headers
      * 3. Return all matching notes with normalized scores
+     * @param parent Optional parent monad; the search is scoped to its notes
      */
-    async defineMonad(query: string): Promise<Monad> {
+    async defineMonad(query: string, parent?: Monad): Promise<Monad> {
         const { vault } = this.app;
 
-        // Find all matching files
-        const files = vault.getMarkdownFiles();
+        // Find all matching files (within the parent's scope when drilling down)
+        const files = parent
+            ? vault.getMarkdownFiles().filter(file => parent.contentInScope.has(file.path))
+            : vault.getMarkdownFiles();
         const relevanceMap = new Map<string, number>();
 
         const queryLower = query.toLowerCase();
@@ -355,21 +429,26 @@ export class ContextualSearchView extends ItemView {
         }
 
         if (relevanceMap.size === 0) {
-            throw new Error(`No notes found matching "${query}"`);
+            throw new Error(parent
+                ? `No notes in "${parent.name}" match "${query}"`
+                : `No notes found matching "${query}"`);
         }
 
-        // Create monad (no parent hierarchy - always top-level from Vault)
         const monad: Monad = {
             id: Date.now().toString(),
             name: query,
             query: query,
             contentInScope: relevanceMap,
             relevanceThreshold: 0.0, // Include all matches
-            parent: undefined, // Always top-level
+            parent,
             createdAt: new Date(),
             noteCount: relevanceMap.size
         };
 
+        if (parent) {
+            parent.children = [...(parent.children || []), monad];
+        }
+
         return monad;
     }
 
@@ -537,10 +616,12 @@ export class ContextualSearchView extends ItemView {
         const conceptItems = this.conceptsList.createEl('div', { cls: 'concept-items' });
 
         for (const concept of concepts) {
-            conceptItems.createEl('span', {
+            const tag = conceptItems.createEl('span', {
                 text: concept,
-                cls: 'concept-tag'
+                cls: 'concept-tag clickable'
             });
+
+            tag.addEventListener('click', () => this.drillDown(concept));
         }
     }
 
@@ -563,16 +644,25 @@ export class ContextualSearchView extends ItemView {
         this.breadcrumbTrail.empty();
 
         // Always show "Vault" first
-        this.breadcrumbTrail.createEl('span', { text: 'Vault', cls: 'breadcrumb-vault' });
+        const vaultCrumb = this.breadcrumbTrail.createEl('span', { text: 'Vault', cls: 'breadcrumb-vault' });
+        if (this.monadStack.length > 0) {
+            vaultCrumb.addClass('clickable');
+            vaultCrumb.addEventListener('click', () => this.popTo(-1));
+        }
 
-        // Add topic if monad is defined
-        if (this.currentMonad) {
+        // Add each monad in the drill-down path; ancestors are clickable
+        this.monadStack.forEach((monad, index) => {
             this.breadcrumbTrail.createEl('span', { text: ' > ', cls: 'breadcrumb-separator' });
-            this.breadcrumbTrail.createEl('span', {
-                text: this.currentMonad.name,
+            const crumb = this.breadcrumbTrail.createEl('span', {
+                text: monad.name,
                 cls: 'breadcrumb-topic'
             });
-        }
+
+            if (index < this.monadStack.length - 1) {
+                crumb.addClass('clickable');
+                crumb.addEventListener('click', () => this.popTo(index));
+            }
+        });
     }
 
     /**
@@ -586,8 +676,11 @@ export class ContextualSearchView extends ItemView {
         this.ctx.clearRect(0, 0, width, height);
 
         // Get theme-appropriate colors
-        const textColor = getComputedStyle(document.body).getPropertyValue('--text-normal').trim() || '#000';
-        const mutedColor = getComputedStyle(document.body).getPropertyValue('--text-muted').trim() || '#888';
+        const style = getComputedStyle(document.body);
+        const textColor = style.getPropertyValue('--text-normal').trim() || '#000';
+        const mutedColor = style.getPropertyValue('--text-muted').trim() || '#888';
+        const accentColor = style.getPropertyValue('--interactive-accent').trim() || '#4a9eff';
+        const conceptColor = style.getPropertyValue('--color-purple').trim() || '#9b59b6';
 
         if (!this.currentMonad) {
             // Draw empty state
@@ -603,14 +696,14 @@ export class ContextualSearchView extends ItemView {
         const radius = Math.min(width, height) / 3;
 
         // Draw monad boundary (circle)
-        this.ctx.strokeStyle = '#4a9eff';
+        this.ctx.strokeStyle = accentColor;
         this.ctx.lineWidth = 2;
         this.ctx.beginPath();
         this.ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
         this.ctx.stroke();
 
         // Draw center dot
-        this.ctx.fillStyle = '#4a9eff';
+        this.ctx.fillStyle = accentColor;
         this.ctx.beginPath();
         this.ctx.arc(centerX, centerY, 5, 0, 2 * Math.PI);
         this.ctx.fill();
@@ -641,7 +734,7 @@ export class ContextualSearchView extends ItemView {
                     const y = centerY + ringRadius * Math.sin(angle);
 
                     // Draw concept dot
-                    this.ctx.fillStyle = '#9b59b6';
+                    this.ctx.fillStyle = conceptColor;
                     this.ctx.beginPath();
                     this.ctx.arc(x, y, 3, 0, 2 * Math.PI);
                     this.ctx.fill();
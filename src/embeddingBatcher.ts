@@ -0,0 +1,108 @@
+/**
+ * Embedding Batcher - Sends many texts per embedding request
+ * Grows or shrinks the batch size with how quickly the backend answers, and keeps
+ * a bounded number of requests in flight
+ */
+
+export interface BatcherOptions {
+    initialSize: number;    // Texts in the first request
+    maxSize: number;        // Most texts the backend accepts per request
+    concurrency: number;    // Requests in flight at once
+    targetTime: number;     // Milliseconds a request should take
+}
+
+export class EmbeddingBatcher {
+    private size: number;
+
+    constructor(
+        private send: (texts: string[]) => Promise<number[][]>,
+        private options: BatcherOptions
+    ) {
+        this.size = Math.max(1, Math.min(options.initialSize, options.maxSize));
+    }
+
+    /**
+     * Embed texts, returning their vectors in order
+     * @param onProgress Called with the number of texts embedded so far
+     */
+    async embed(texts: string[], onProgress?: (done: number, total: number) => void): Promise<number[][]> {
+        const results: number[][] = new Array(texts.length);
+        let next = 0;
+        let done = 0;
+        let failed = false;
+
+        // Each worker takes the next batch at the current size until none are left
+        const worker = async () => {
+            while (!failed && next < texts.length) {
+                const start = next;
+                const end = Math.min(texts.length, start + this.size);
+                next = end;
+
+                try {
+                    await this.sendAdaptive(texts.slice(start, end), start, results);
+                } catch (error) {
+                    failed = true;
+                    throw error;
+                }
+
+                done += end - start;
+                onProgress?.(done, texts.length);
+            }
+        };
+
+        const workers = Math.max(1, Math.min(this.options.concurrency, Math.ceil(texts.length / this.size)));
+        await Promise.all(Array.from({ length: workers }, () => worker()));
+
+        return results;
+    }
+
+    /**
+     * Send one batch; a batch the backend cannot handle in time is split in two and retried
+     */
+    private async sendAdaptive(batch: string[], offset: number, results: number[][]): Promise<void> {
+        const started = Date.now();
+
+        let embeddings: number[][];
+        try {
+            embeddings = await this.send(batch);
+        } catch (error) {
+            if (batch.length > 1 && this.isOverloaded(error)) {
+                this.size = Math.max(1, Math.floor(batch.length / 2));
+                const half = Math.ceil(batch.length / 2);
+                await this.sendAdaptive(batch.slice(0, half), offset, results);
+                await this.sendAdaptive(batch.slice(half), offset + half, results);
+                return;
+            }
+            throw error;
+        }
+
+        if (embeddings.length !== batch.length) {
+            throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+        }
+        embeddings.forEach((embedding, i) => {
+            results[offset + i] = embedding;
+        });
+
+        this.adjust(batch.length, Date.now() - started);
+    }
+
+    /**
+     * Double the batch size after a quick full batch, halve it after a slow one
+     */
+    private adjust(sent: number, elapsed: number) {
+        if (elapsed > this.options.targetTime) {
+            this.size = Math.max(1, Math.floor(this.size / 2));
+        } else if (sent >= this.size && elapsed < this.options.targetTime / 2) {
+            this.size = Math.min(this.options.maxSize, this.size * 2);
+        }
+    }
+
+    /**
+     * Timeouts, payload-too-large and server errors are worth retrying with less
+     */
+    private isOverloaded(error: unknown): boolean {
+        if (error instanceof Error && error.name === 'AbortError') return true;
+        const message = error instanceof Error ? error.message : String(error);
+        return /^HTTP (413|5\d\d)\b/.test(message);
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * Embedding Provider - Turns text into vectors for semantic search
+ * Implemented by the Rust server client (EmbeddingService) and the OpenAI-compatible client
+ */
+
+export interface EmbeddingModelInfo {
+    name: string;
+    dimensions: number;
+}
+
+export interface EmbeddingProvider {
+    /**
+     * Connect to the backend and learn the model it serves
+     * Throws with a message fit to show the user when the backend is unreachable
+     */
+    initialize(): Promise<void>;
+
+    isReady(): boolean;
+
+    embed(text: string): Promise<number[]>;
+
+    /**
+     * Embed many texts, several per request where the backend allows it
+     * @param onProgress Called with the number of texts embedded so far
+     */
+    embedBatch(texts: string[], onProgress?: (done: number, total: number) => void): Promise<number[][]>;
+
+    getModelInfo(): EmbeddingModelInfo;
+
+    /**
+     * Where embeddings come from, for status and error messages
+     */
+    describe(): string;
+}
+
+/**
+ * Calculate cosine similarity between two embeddings
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+        throw new Error('Vectors must have same dimensions');
+    }
+
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        dotProduct += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    normA = Math.sqrt(normA);
+    normB = Math.sqrt(normB);
+
+    if (normA === 0 || normB === 0) {
+        return 0;
+    }
+
+    return dotProduct / (normA * normB);
+}
+
+/**
+ * Find k nearest neighbors using cosine similarity
+ */
+export function findNearest(
+    query: number[],
+    embeddings: { id: string; embedding: number[] }[],
+    k: number
+): { id: string; score: number }[] {
+    const scored = embeddings.map(item => ({
+        id: item.id,
+        score: cosineSimilarity(query, item.embedding)
+    }));
+
+    // Sort by score descending
+    scored.sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, k);
+}
+
+/**
+ * Truncate text to fit a model's token limit
+ */
+export function truncateWords(text: string, maxWords: number): string {
+    const words = text.split(/\s+/);
+    if (words.length <= maxWords) {
+        return text;
+    }
+    return words.slice(0, maxWords).join(' ') + '...';
+}
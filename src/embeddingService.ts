@@ -1,10 +1,10 @@
 /**
  * Embedding Service - Generates semantic embeddings via HTTP to Rust server
- * Connects to local embedding server (systematics-embeddings) on localhost:8765
+ * Connects to the embedding server (systematics-embeddings), by default on localhost:8765
  */
 
-import { Notice } from 'obsidian';
-import { Embedding } from './semanticTypes';
+import { EmbeddingProvider, truncateWords } from './embeddingProvider';
+import { EmbeddingBatcher } from './embeddingBatcher';
 
 interface EmbedRequest {
     text: string;
@@ -15,6 +15,15 @@ interface EmbedResponse {
     dimensions: number;
 }
 
+interface EmbedBatchRequest {
+    texts: string[];
+}
+
+interface EmbedBatchResponse {
+    embeddings: number[][];
+    dimensions: number;
+}
+
 interface IndexRequest {
     id: string;
     text: string;
@@ -41,37 +50,44 @@ interface SearchResponse {
     results: SearchResult[];
 }
 
-interface HealthResponse {
+export interface HealthResponse {
     status: string;
     model: string;
     dimensions: number;
+    max_batch_size?: number;    // Absent on servers without /embed_batch
+}
+
+export interface EmbeddingServerConfig {
+    serverUrl: string;      // Base URL, e.g. http://localhost:8765
+    apiToken: string;       // Sent as a bearer token when not empty
+    healthTimeout: number;  // Milliseconds to wait for /health
+    requestTimeout: number; // Milliseconds to wait for embed, index and search requests
 }
 
-export class EmbeddingService {
-    private serverUrl: string = 'http://localhost:8765';
+export const DEFAULT_SERVER_URL = 'http://localhost:8765';
+
+export class EmbeddingService implements EmbeddingProvider {
+    private config: EmbeddingServerConfig;
     private dimensions: number = 384;
     private isHealthy: boolean = false;
     private modelName: string = 'all-MiniLM-L6-v2';
+    private batcher: EmbeddingBatcher | null = null;
 
-    constructor() {}
+    constructor(config: EmbeddingServerConfig) {
+        this.config = config;
+    }
 
     /**
      * Initialize by checking server health
      */
     async initialize(): Promise<void> {
         try {
-            // Create timeout controller
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-            const response = await fetch(`${this.serverUrl}/health`, {
-                method: 'GET',
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
+            const response = await this.request('/health', undefined, this.config.healthTimeout);
 
             if (!response.ok) {
+                if (response.status === 401 || response.status === 403) {
+                    throw new Error(`Server rejected the API token (${response.status})`);
+                }
                 throw new Error(`Server returned ${response.status}: ${response.statusText}`);
             }
 
@@ -83,6 +99,7 @@ export class EmbeddingService {
 
             this.dimensions = health.dimensions;
             this.modelName = health.model;
+            this.batcher = this.createBatcher(health.max_batch_size);
             this.isHealthy = true;
 
             console.log(`Embedding server connected: ${health.model} (${health.dimensions}d)`);
@@ -95,10 +112,13 @@ export class EmbeddingService {
                 throw new Error(
                     'Cannot connect to embedding server. Please ensure:\n' +
                     '1. The Rust server is running: ./target/release/systematics-embeddings\n' +
-                    '2. The server is listening on http://localhost:8765\n' +
+                    `2. The server is listening on ${this.getServerUrl()} (see the Server URL setting)\n` +
                     '3. No firewall is blocking the connection'
                 );
             }
+            if (error instanceof Error && error.name === 'AbortError') {
+                throw new Error(`Embedding server at ${this.getServerUrl()} did not answer within ${this.config.healthTimeout / 1000}s`);
+            }
 
             throw new Error(`Embedding server error: ${errorMsg}`);
         }
@@ -114,38 +134,7 @@ export class EmbeddingService {
 
         try {
             // Truncate text if too long (model has 512 token limit)
-            const truncated = this.truncateText(text, 500);
-
-            const request: EmbedRequest = { text: truncated };
-
-            // Create timeout controller
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-            const response = await fetch(`${this.serverUrl}/embed`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(request),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`HTTP ${response.status}: ${errorText}`);
-            }
-
-            const data: EmbedResponse = await response.json();
-
-            if (!data.embedding || !Array.isArray(data.embedding)) {
-                throw new Error('Invalid embedding response from server');
-            }
-
-            return data.embedding;
-
+            return await this.requestEmbedding(truncateWords(text, 500));
         } catch (error) {
             console.error('Embedding generation failed:', error);
             this.isHealthy = false; // Mark as unhealthy to retry initialization
@@ -154,32 +143,79 @@ export class EmbeddingService {
     }
 
     /**
-     * Generate embeddings for multiple texts (more efficient via batching)
+     * Generate embeddings for multiple texts, many per request via /embed_batch
+     * @param onProgress Called with the number of texts embedded so far
      */
-    async embedBatch(texts: string[], batchSize: number = 32): Promise<number[][]> {
-        if (!this.isHealthy) {
+    async embedBatch(texts: string[], onProgress?: (done: number, total: number) => void): Promise<number[][]> {
+        if (!this.isHealthy || !this.batcher) {
             await this.initialize();
         }
 
-        const embeddings: number[][] = [];
+        try {
+            return await this.batcher!.embed(texts.map(text => truncateWords(text, 500)), onProgress);
+        } catch (error) {
+            console.error('Batch embedding failed:', error);
+            this.isHealthy = false; // Mark as unhealthy to retry initialization
+            throw error;
+        }
+    }
 
-        // Process in batches to avoid overwhelming the server
-        for (let i = 0; i < texts.length; i += batchSize) {
-            const batch = texts.slice(i, i + batchSize);
+    /**
+     * Batch through /embed_batch when the server has it, otherwise send single
+     * /embed requests a few at a time
+     */
+    private createBatcher(maxBatchSize?: number): EmbeddingBatcher {
+        const targetTime = Math.min(2000, this.config.requestTimeout / 4);
+
+        if (!maxBatchSize) {
+            return new EmbeddingBatcher(
+                texts => Promise.all(texts.map(text => this.requestEmbedding(text))),
+                { initialSize: 1, maxSize: 1, concurrency: 4, targetTime }
+            );
+        }
 
-            // Process batch in parallel
-            const batchPromises = batch.map(text => this.embed(text));
-            const batchResults = await Promise.all(batchPromises);
+        return new EmbeddingBatcher(
+            texts => this.requestEmbeddings(texts),
+            { initialSize: Math.min(16, maxBatchSize), maxSize: maxBatchSize, concurrency: 2, targetTime }
+        );
+    }
 
-            embeddings.push(...batchResults);
+    private async requestEmbedding(text: string): Promise<number[]> {
+        const request: EmbedRequest = { text };
 
-            // Small delay between batches to avoid overwhelming server
-            if (i + batchSize < texts.length) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-            }
+        const response = await this.request('/embed', request, this.config.requestTimeout);
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`HTTP ${response.status}: ${errorText}`);
         }
 
-        return embeddings;
+        const data: EmbedResponse = await response.json();
+
+        if (!data.embedding || !Array.isArray(data.embedding)) {
+            throw new Error('Invalid embedding response from server');
+        }
+
+        return data.embedding;
+    }
+
+    private async requestEmbeddings(texts: string[]): Promise<number[][]> {
+        const request: EmbedBatchRequest = { texts };
+
+        const response = await this.request('/embed_batch', request, this.config.requestTimeout);
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`HTTP ${response.status}: ${errorText}`);
+        }
+
+        const data: EmbedBatchResponse = await response.json();
+
+        if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+            throw new Error('Invalid batch embedding response from server');
+        }
+
+        return data.embeddings;
     }
 
     /**
@@ -193,20 +229,7 @@ export class EmbeddingService {
         try {
             const request: IndexRequest = { id, text, metadata };
 
-            // Create timeout controller
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-            const response = await fetch(`${this.serverUrl}/index`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(request),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
+            const response = await this.request('/index', request, this.config.requestTimeout);
 
             if (!response.ok) {
                 const errorText = await response.text();
@@ -233,20 +256,7 @@ export class EmbeddingService {
         try {
             const request: SearchRequest = { query, limit };
 
-            // Create timeout controller
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-            const response = await fetch(`${this.serverUrl}/search`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(request),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
+            const response = await this.request('/search', request, this.config.requestTimeout);
 
             if (!response.ok) {
                 const errorText = await response.text();
@@ -263,14 +273,31 @@ export class EmbeddingService {
     }
 
     /**
-     * Truncate text to fit model's token limit
+     * Send a request to the server, with the bearer token and a timeout
+     * GETs when there is no body, otherwise POSTs it as JSON
      */
-    private truncateText(text: string, maxWords: number): string {
-        const words = text.split(/\s+/);
-        if (words.length <= maxWords) {
-            return text;
+    private async request(path: string, body: unknown, timeout: number): Promise<Response> {
+        const headers: Record<string, string> = {};
+        if (body !== undefined) {
+            headers['Content-Type'] = 'application/json';
+        }
+        if (this.config.apiToken) {
+            headers['Authorization'] = `Bearer ${this.config.apiToken}`;
+        }
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        try {
+            return await fetch(`${this.getServerUrl()}${path}`, {
+                method: body === undefined ? 'GET' : 'POST',
+                headers,
+                body: body === undefined ? undefined : JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } finally {
+            clearTimeout(timeoutId);
         }
-        return words.slice(0, maxWords).join(' ') + '...';
     }
 
     /**
@@ -291,56 +318,16 @@ export class EmbeddingService {
     }
 
     /**
-     * Get server URL (for debugging)
-     */
-    getServerUrl(): string {
-        return this.serverUrl;
-    }
-
-    /**
-     * Calculate cosine similarity between two embeddings
+     * Where embeddings come from, for messages
      */
-    static cosineSimilarity(a: number[], b: number[]): number {
-        if (a.length !== b.length) {
-            throw new Error('Vectors must have same dimensions');
-        }
-
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-
-        for (let i = 0; i < a.length; i++) {
-            dotProduct += a[i] * b[i];
-            normA += a[i] * a[i];
-            normB += b[i] * b[i];
-        }
-
-        normA = Math.sqrt(normA);
-        normB = Math.sqrt(normB);
-
-        if (normA === 0 || normB === 0) {
-            return 0;
-        }
-
-        return dotProduct / (normA * normB);
+    describe(): string {
+        return `the embedding server at ${this.getServerUrl()}`;
     }
 
     /**
-     * Find k nearest neighbors using cosine similarity
+     * Get server URL (for debugging)
      */
-    static findNearest(
-        query: number[],
-        embeddings: { id: string; embedding: number[] }[],
-        k: number
-    ): { id: string; score: number }[] {
-        const scored = embeddings.map(item => ({
-            id: item.id,
-            score: EmbeddingService.cosineSimilarity(query, item.embedding)
-        }));
-
-        // Sort by score descending
-        scored.sort((a, b) => b.score - a.score);
-
-        return scored.slice(0, k);
+    getServerUrl(): string {
+        return (this.config.serverUrl.trim() || DEFAULT_SERVER_URL).replace(/\/+$/, '');
     }
 }
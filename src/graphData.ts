@@ -1,9 +1,40 @@
-import { GraphGeometry, Vertex, Edge } from './types';
+import { GraphGeometry, Vertex, Edge, EdgeStyle } from './types';
+
+/**
+ * Edge type used for edges without an explicit type
+ */
+export const DEFAULT_EDGE_TYPE = 'default';
+
+/**
+ * Styles for the edge types used in systematics teaching material
+ * Unknown types fall back to a dotted line in the default colour
+ */
+export const EDGE_TYPE_STYLES: { [type: string]: EdgeStyle } = {
+    [DEFAULT_EDGE_TYPE]: { color: '--text-muted', fallback: '#888888', width: 1.5, dash: [] },
+    dynamic: { color: '--interactive-accent', fallback: '#3b82f6', width: 2, dash: [] },
+    tension: { color: '--color-red', fallback: '#e93147', width: 2, dash: [6, 4] },
+    flow: { color: '--color-green', fallback: '#08b94e', width: 2, dash: [] }
+};
+
+export function getEdgeType(edge: Edge): string {
+    return edge.type || DEFAULT_EDGE_TYPE;
+}
+
+export function getEdgeStyle(edge: Edge): EdgeStyle {
+    return EDGE_TYPE_STYLES[getEdgeType(edge)] || { ...EDGE_TYPE_STYLES[DEFAULT_EDGE_TYPE], dash: [2, 3] };
+}
+
+/**
+ * Key under which an edge's label and note link are stored
+ */
+export function getEdgeKey(edge: Edge): string {
+    return `${edge.from}-${edge.to}`;
+}
 
 /**
  * Generates all edges for a complete graph Kn
  */
-function generateCompleteGraphEdges(n: number): Edge[] {
+export function generateCompleteGraphEdges(n: number): Edge[] {
     const edges: Edge[] = [];
     for (let i = 0; i < n; i++) {
         for (let j = i + 1; j < n; j++) {
@@ -13,6 +44,19 @@ function generateCompleteGraphEdges(n: number): Edge[] {
     return edges;
 }
 
+/**
+ * K2 - Dyad (two poles of a polarity)
+ */
+export const K2: GraphGeometry = {
+    name: "K2",
+    order: 2,
+    vertices: [
+        { index: 0, label: "Pole A", x: -1.0, y: 0.0 },
+        { index: 1, label: "Pole B", x: 1.0, y: 0.0 }
+    ],
+    edges: generateCompleteGraphEdges(2)
+};
+
 /**
  * K3 - Triangle
  */
@@ -202,6 +246,7 @@ export const K12: GraphGeometry = {
  * Map of all available graphs
  */
 export const GRAPHS: { [key: number]: GraphGeometry } = {
+    2: K2,
     3: K3,
     4: K4,
     5: K5,
@@ -213,3 +258,157 @@ export const GRAPHS: { [key: number]: GraphGeometry } = {
     11: K11,
     12: K12
 };
+
+
+/**
+ * Built-in graphs ordered by size
+ */
+export const BUILTIN_GRAPHS: GraphGeometry[] = Object.keys(GRAPHS)
+    .map(key => GRAPHS[parseInt(key)])
+    .sort((a, b) => a.order - b.order);
+
+/**
+ * Generates a regular polygon layout on the unit circle, vertex 0 at the top
+ */
+export function generateRegularPolygon(n: number): Vertex[] {
+    const vertices: Vertex[] = [];
+    for (let i = 0; i < n; i++) {
+        const angle = Math.PI / 2 - (2 * Math.PI * i) / n;
+        vertices.push({
+            index: i,
+            label: `Node ${i}`,
+            x: Math.round(Math.cos(angle) * 1e6) / 1e6,
+            y: Math.round(Math.sin(angle) * 1e6) / 1e6
+        });
+    }
+    return vertices;
+}
+
+/**
+ * A JSON or YAML object (as opposed to an array, primitive or null)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse user-defined graph geometries from JSON or from the first ```json block of a markdown note
+ *
+ * Each definition is `{ name, vertices?, order?, edges? }`:
+ * - `vertices`: `[{ label?, x, y, z? }]`; if omitted, `order` vertices are laid out as a regular polygon
+ * - `edges`: `[[from, to]]` or `[{ from, to }]`; if omitted, the graph is complete
+ */
+export function parseGraphDefinitions(source: string): GraphGeometry[] {
+    const codeBlock = source.match(/```(?:json|systematics-graphs)\s*\n([\s\S]*?)```/);
+    const json = codeBlock ? codeBlock[1] : source;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+    }
+
+    const definitions: unknown[] = Array.isArray(data) ? data : [data];
+    return definitions.map((definition, i) => parseGraphDefinition(definition, i));
+}
+
+function parseGraphDefinition(definition: unknown, position: number): GraphGeometry {
+    if (!isRecord(definition)) {
+        throw new Error(`Graph #${position + 1} must be an object`);
+    }
+
+    const name = typeof definition.name === 'string' ? definition.name.trim() : '';
+    if (!name) {
+        throw new Error(`Graph #${position + 1} needs a "name"`);
+    }
+
+    let vertices: Vertex[];
+    if (Array.isArray(definition.vertices)) {
+        vertices = definition.vertices.map((v: unknown, i: number) => parseVertex(name, v, i));
+    } else if (typeof definition.order === 'number') {
+        vertices = generateRegularPolygon(Math.floor(definition.order));
+    } else {
+        throw new Error(`${name}: provide either "vertices" or "order"`);
+    }
+
+    if (vertices.length < 1 || vertices.length > 64) {
+        throw new Error(`${name}: graphs need between 1 and 64 vertices`);
+    }
+
+    const edges: Edge[] = Array.isArray(definition.edges)
+        ? definition.edges.map((e: unknown, i: number) => parseEdge(name, e, i, vertices.length))
+        : generateCompleteGraphEdges(vertices.length);
+
+    return {
+        name,
+        order: vertices.length,
+        vertices,
+        edges
+    };
+}
+
+function parseVertex(name: string, v: unknown, i: number): Vertex {
+    if (!isRecord(v) || typeof v.x !== 'number' || typeof v.y !== 'number') {
+        throw new Error(`${name}: vertex ${i} needs numeric "x" and "y"`);
+    }
+    const vertex: Vertex = {
+        index: i,
+        label: typeof v.label === 'string' ? v.label : `Node ${i}`,
+        x: v.x,
+        y: v.y
+    };
+    if (typeof v.z === 'number') {
+        vertex.z = v.z;
+    }
+    return vertex;
+}
+
+/**
+ * An edge as `[from, to, type?]` shorthand, or `{from, to, type?, directed?, label?}`
+ */
+function parseEdge(name: string, e: unknown, i: number, order: number): Edge {
+    const fields = isRecord(e) ? e : {};
+    const from = Array.isArray(e) ? e[0] : fields.from;
+    const to = Array.isArray(e) ? e[1] : fields.to;
+    if (typeof from !== 'number' || typeof to !== 'number' || !Number.isInteger(from) || !Number.isInteger(to) ||
+        from < 0 || to < 0 || from >= order || to >= order || from === to) {
+        throw new Error(`${name}: edge ${i} must join two different vertices (0-${order - 1})`);
+    }
+
+    const edge: Edge = { from, to };
+    const type = Array.isArray(e) ? e[2] : fields.type;
+    if (type !== undefined) {
+        if (typeof type !== 'string' || !type.trim()) {
+            throw new Error(`${name}: edge ${i} has an invalid "type"`);
+        }
+        edge.type = type.trim();
+    }
+    if (fields.directed !== undefined) edge.directed = !!fields.directed;
+    if (typeof fields.label === 'string' && fields.label.trim()) edge.label = fields.label.trim();
+    return edge;
+}
+
+/**
+ * Serialize a graph as an editable JSON definition (inverse of parseGraphDefinitions)
+ */
+export function serializeGraphDefinition(graph: GraphGeometry): string {
+    return JSON.stringify({
+        name: graph.name,
+        vertices: graph.vertices.map(v => {
+            const vertex: Omit<Vertex, 'index'> = { label: v.label, x: v.x, y: v.y };
+            if (v.z !== undefined) vertex.z = v.z;
+            return vertex;
+        }),
+        edges: graph.edges.map(e => {
+            if (e.directed || e.label) {
+                const edge: Edge = { from: e.from, to: e.to };
+                if (e.type) edge.type = e.type;
+                if (e.directed) edge.directed = true;
+                if (e.label) edge.label = e.label;
+                return edge;
+            }
+            return e.type ? [e.from, e.to, e.type] : [e.from, e.to];
+        })
+    }, null, 2);
+}
@@ -0,0 +1,266 @@
+/**
+ * Graph Embed - Renders a systematics graph inside a note from a `systematics` code block
+ *
+ * ```systematics
+ * graph: K4
+ * instance: Project
+ * height: 400
+ * ```
+ *
+ * Options: `graph` (geometry name), `instance` (named instance of it), `file` (a graph file,
+ * instead of graph/instance), `height` (pixels), and inline `labels`/`notes` lists or
+ * `nodes`/`edges` maps (same shape as graph file frontmatter) that override the instance.
+ */
+
+import { Keymap, MarkdownRenderChild, TFile, parseYaml } from 'obsidian';
+import { GraphDocument, GraphGeometry, GraphInstance } from './types';
+import { GraphRenderer } from './graphRenderer';
+import { isGraphFile } from './graphFiles';
+import { getEdgeKey, isRecord } from './graphData';
+import { applyLayout } from './graphLayouts';
+import SystematicsPlugin from '../main';
+
+/**
+ * Options of a `systematics` block, as parsed from its YAML
+ * Any other keys (`nodes`, `edges`, `layout`, ...) are read like graph file frontmatter
+ */
+interface EmbedOptions extends Record<string, unknown> {
+    graph?: unknown;
+    instance?: unknown;
+    file?: unknown;
+    height?: unknown;
+    labels?: unknown;
+    notes?: unknown;
+}
+
+export class GraphEmbed extends MarkdownRenderChild {
+    plugin: SystematicsPlugin;
+    source: string;
+    sourcePath: string;
+    canvas: HTMLCanvasElement;
+    renderer: GraphRenderer | null = null;
+    resizeObserver: ResizeObserver | null = null;
+    height: number = 360;
+
+    constructor(containerEl: HTMLElement, plugin: SystematicsPlugin, source: string, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+        this.sourcePath = sourcePath;
+    }
+
+    onload() {
+        this.containerEl.addClass('systematics-embed');
+
+        // The plugin re-resolves the block when graph files, instances or geometries change
+        this.plugin.embeds.add(this);
+        this.registerEvent(this.app.workspace.on('css-change', () => this.draw()));
+
+        this.refresh();
+    }
+
+    onunload() {
+        this.plugin.embeds.delete(this);
+        this.resizeObserver?.disconnect();
+    }
+
+    get app() {
+        return this.plugin.app;
+    }
+
+    /**
+     * Build the canvas for a resolved graph
+     */
+    render(graph: GraphGeometry, doc: GraphDocument) {
+        this.containerEl.empty();
+        this.canvas = this.containerEl.createEl('canvas', { cls: 'systematics-embed-canvas' });
+        this.renderer = new GraphRenderer(this.app, this.canvas.getContext('2d')!, graph, doc);
+        this.renderer.onIconLoaded = () => this.draw();
+
+        this.registerDomEvent(this.canvas, 'mousemove', this.onMouseMove.bind(this));
+        this.registerDomEvent(this.canvas, 'mouseleave', () => {
+            if (!this.renderer) return;
+            this.renderer.hoveredVertex = null;
+            this.renderer.hoveredEdge = null;
+            this.draw();
+        });
+        this.registerDomEvent(this.canvas, 'click', this.onClick.bind(this));
+
+        // The block has no width until it is attached, so size it on layout
+        this.resizeObserver = new ResizeObserver(() => this.resize());
+        this.resizeObserver.observe(this.containerEl);
+    }
+
+    /**
+     * Re-read the block's graph and labels, building the canvas if an earlier attempt failed
+     */
+    refresh() {
+        try {
+            const { graph, doc } = this.resolve();
+            if (!this.renderer) {
+                this.render(graph, doc);
+                return;
+            }
+            this.renderer.graph = graph;
+            this.renderer.doc = doc;
+            this.draw();
+        } catch (error) {
+            this.showError(error.message);
+        }
+    }
+
+    /**
+     * Geometry and labels named by the block's options
+     */
+    resolve(): { graph: GraphGeometry; doc: GraphDocument } {
+        const parsed: unknown = this.source.trim() ? parseYaml(this.source) : {};
+        if (!isRecord(parsed)) {
+            throw new Error('Expected options such as "graph: K4"');
+        }
+        const options: EmbedOptions = parsed;
+
+        if (typeof options.height === 'number') {
+            this.height = Math.max(160, Math.min(1200, options.height));
+        }
+
+        let instance: GraphInstance | null = null;
+
+        if (options.file) {
+            const linkpath = this.plugin.graphFiles.resolveLink(String(options.file), this.sourcePath);
+            const file = this.app.vault.getAbstractFileByPath(linkpath) ||
+                this.app.metadataCache.getFirstLinkpathDest(linkpath, this.sourcePath);
+            if (!isGraphFile(file)) {
+                throw new Error(`Graph file not found: ${options.file}`);
+            }
+            instance = this.plugin.graphFiles.getInstance(file as TFile);
+            if (!instance) {
+                throw new Error(`${(file as TFile).name} has no "systematics-graph" property`);
+            }
+        } else {
+            const graphName = options.graph !== undefined ? String(options.graph) : '';
+            if (!graphName) {
+                throw new Error('Name a graph ("graph: K4") or a graph file ("file: [[My graph.systematics]]")');
+            }
+
+            const instances = this.plugin.getInstances(graphName);
+            instance = options.instance !== undefined
+                ? instances.find(i => i.name === String(options.instance)) || null
+                : instances[0];
+            if (!instance) {
+                throw new Error(`${graphName} has no instance named "${options.instance}"`);
+            }
+        }
+
+        const graph = this.plugin.getGraph(instance.graph);
+        if (!graph) {
+            throw new Error(`Unknown graph "${instance.graph}"`);
+        }
+
+        const doc = this.applyInlineLabels(this.plugin.getDocument(instance), options);
+        return { graph: applyLayout(graph, doc.layout), doc };
+    }
+
+    /**
+     * Overlay labels and links given in the block itself
+     */
+    applyInlineLabels(base: GraphDocument, options: EmbedOptions): GraphDocument {
+        const inline = this.plugin.graphFiles.parseDocument(options, base.graph, base.name, this.sourcePath);
+        const doc: GraphDocument = {
+            ...base,
+            nodes: { ...base.nodes, ...inline.nodes },
+            edges: { ...base.edges, ...inline.edges },
+            hiddenEdgeTypes: inline.hiddenEdgeTypes.length > 0 ? inline.hiddenEdgeTypes : base.hiddenEdgeTypes,
+            layout: inline.layout || base.layout
+        };
+
+        const labels: unknown[] = Array.isArray(options.labels) ? options.labels : [];
+        const notes: unknown[] = Array.isArray(options.notes) ? options.notes : [];
+        for (let i = 0; i < Math.max(labels.length, notes.length); i++) {
+            const node = { ...(doc.nodes[i] || { label: '', noteFile: '' }) };
+            if (labels[i] !== undefined && labels[i] !== null) node.label = String(labels[i]);
+            if (notes[i]) node.noteFile = this.plugin.graphFiles.resolveLink(String(notes[i]), this.sourcePath);
+            doc.nodes[i] = node;
+        }
+
+        return doc;
+    }
+
+    resize() {
+        if (!this.renderer) return;
+
+        const displayWidth = Math.max(this.containerEl.clientWidth, 200);
+        const displayHeight = this.height;
+        const dpr = window.devicePixelRatio || 1;
+
+        if (this.canvas.width === displayWidth * dpr && this.canvas.height === displayHeight * dpr) return;
+
+        this.canvas.width = displayWidth * dpr;
+        this.canvas.height = displayHeight * dpr;
+        this.canvas.style.width = displayWidth + 'px';
+        this.canvas.style.height = displayHeight + 'px';
+
+        this.renderer.ctx = this.canvas.getContext('2d')!;
+        this.renderer.ctx.scale(dpr, dpr);
+        this.renderer.fitTo(displayWidth, displayHeight);
+        this.draw();
+    }
+
+    draw() {
+        this.renderer?.draw();
+    }
+
+    /**
+     * Note linked from the vertex or edge under the pointer, if any
+     */
+    linkedNoteAt(event: MouseEvent): string | null {
+        if (!this.renderer) return null;
+
+        const rect = this.canvas.getBoundingClientRect();
+        const mouseX = event.clientX - rect.left;
+        const mouseY = event.clientY - rect.top;
+        const { doc, graph } = this.renderer;
+
+        const vertex = this.renderer.findVertexAt(mouseX, mouseY) ?? this.renderer.findLabelAt(mouseX, mouseY);
+        if (vertex !== null) {
+            return doc.nodes[vertex]?.noteFile || null;
+        }
+
+        const edge = this.renderer.findEdgeAt(mouseX, mouseY);
+        if (edge !== null) {
+            return doc.edges[getEdgeKey(graph.edges[edge])]?.noteFile || null;
+        }
+
+        return null;
+    }
+
+    onMouseMove(event: MouseEvent) {
+        if (!this.renderer) return;
+
+        const rect = this.canvas.getBoundingClientRect();
+        const vertex = this.renderer.findVertexAt(event.clientX - rect.left, event.clientY - rect.top);
+        const edge = vertex === null ? this.renderer.findEdgeAt(event.clientX - rect.left, event.clientY - rect.top) : null;
+
+        if (vertex !== this.renderer.hoveredVertex || edge !== this.renderer.hoveredEdge) {
+            this.renderer.hoveredVertex = vertex;
+            this.renderer.hoveredEdge = edge;
+            this.draw();
+        }
+
+        this.canvas.style.cursor = this.linkedNoteAt(event) ? 'pointer' : 'default';
+    }
+
+    onClick(event: MouseEvent) {
+        const path = this.linkedNoteAt(event);
+        if (path) {
+            this.app.workspace.openLinkText(path, this.sourcePath, Keymap.isModEvent(event));
+        }
+    }
+
+    showError(message: string) {
+        this.renderer = null;
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        this.containerEl.empty();
+        this.containerEl.createDiv({ cls: 'systematics-embed-error', text: `Systematics: ${message}` });
+    }
+}
@@ -0,0 +1,325 @@
+/**
+ * Graph Export - Saves a systematics graph as a standalone SVG or a PNG attachment,
+ * or as an editable Obsidian Canvas
+ * SVG and PNG are drawn by the same GraphRenderer as the graph view
+ */
+
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { GraphGeometry, GraphDocument, ConceptualNode } from './types';
+import { GraphRenderer } from './graphRenderer';
+import { buildCanvas } from './canvasFormat';
+import { applyLayout } from './graphLayouts';
+
+export const EXPORT_SIZE = 800; // Logical width/height of exported graphs in pixels
+export const PNG_SCALES = [1, 2, 3, 4]; // Pixel ratios offered for PNG export
+
+/**
+ * Minimal CanvasRenderingContext2D stand-in that records drawing as SVG elements
+ * Covers the subset of the canvas API used by GraphRenderer
+ */
+class SvgContext {
+    canvas: { width: number; height: number };
+    strokeStyle: string = '#000000';
+    fillStyle: string = '#000000';
+    lineWidth: number = 1;
+    globalAlpha: number = 1;
+    font: string = '10px sans-serif';
+    textAlign: CanvasTextAlign = 'start';
+    textBaseline: CanvasTextBaseline = 'alphabetic';
+
+    private lineDash: number[] = [];
+    private path: string[] = [];
+    private elements: string[] = [];
+    private measureContext: CanvasRenderingContext2D;
+
+    constructor(width: number, height: number) {
+        this.canvas = { width, height };
+        // Text is measured on a real canvas so wrapping matches the on-screen rendering
+        this.measureContext = document.createElement('canvas').getContext('2d')!;
+    }
+
+    clearRect() {
+        this.elements = [];
+    }
+
+    beginPath() {
+        this.path = [];
+    }
+
+    moveTo(x: number, y: number) {
+        this.path.push(`M${num(x)} ${num(y)}`);
+    }
+
+    lineTo(x: number, y: number) {
+        this.path.push(`L${num(x)} ${num(y)}`);
+    }
+
+    closePath() {
+        this.path.push('Z');
+    }
+
+    arc(x: number, y: number, radius: number, startAngle: number, endAngle: number) {
+        if (endAngle - startAngle >= 2 * Math.PI - 1e-6) {
+            // Full circle as two half arcs (a single arc cannot start and end at the same point)
+            this.path.push(
+                `M${num(x + radius)} ${num(y)}`,
+                `A${num(radius)} ${num(radius)} 0 1 1 ${num(x - radius)} ${num(y)}`,
+                `A${num(radius)} ${num(radius)} 0 1 1 ${num(x + radius)} ${num(y)}`
+            );
+            return;
+        }
+
+        const startX = x + radius * Math.cos(startAngle);
+        const startY = y + radius * Math.sin(startAngle);
+        const endX = x + radius * Math.cos(endAngle);
+        const endY = y + radius * Math.sin(endAngle);
+        const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+
+        this.path.push(
+            `${this.path.length > 0 ? 'L' : 'M'}${num(startX)} ${num(startY)}`,
+            `A${num(radius)} ${num(radius)} 0 ${largeArc} 1 ${num(endX)} ${num(endY)}`
+        );
+    }
+
+    rect(x: number, y: number, width: number, height: number) {
+        this.path.push(`M${num(x)} ${num(y)}`, `h${num(width)}`, `v${num(height)}`, `h${num(-width)}`, 'Z');
+    }
+
+    stroke() {
+        this.elements.push(`<path d="${this.path.join(' ')}" fill="none" ${this.strokeAttributes()}${this.opacity()}/>`);
+    }
+
+    fill() {
+        this.elements.push(`<path d="${this.path.join(' ')}" fill="${escape(this.fillStyle)}"${this.opacity()}/>`);
+    }
+
+    fillRect(x: number, y: number, width: number, height: number) {
+        this.elements.push(`<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="${escape(this.fillStyle)}"${this.opacity()}/>`);
+    }
+
+    strokeRect(x: number, y: number, width: number, height: number) {
+        this.elements.push(`<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="none" ${this.strokeAttributes()}${this.opacity()}/>`);
+    }
+
+    fillText(text: string, x: number, y: number) {
+        const anchor = this.textAlign === 'center' ? 'middle'
+            : this.textAlign === 'right' || this.textAlign === 'end' ? 'end'
+            : 'start';
+        const baseline = this.textBaseline === 'middle' ? 'central'
+            : this.textBaseline === 'bottom' ? 'text-after-edge'
+            : this.textBaseline === 'top' || this.textBaseline === 'hanging' ? 'hanging'
+            : 'auto';
+
+        this.elements.push(
+            `<text x="${num(x)}" y="${num(y)}" text-anchor="${anchor}" dominant-baseline="${baseline}" ` +
+            `style="font: ${escape(this.font)}" fill="${escape(this.fillStyle)}"${this.opacity()}>${escape(text)}</text>`
+        );
+    }
+
+    measureText(text: string): TextMetrics {
+        this.measureContext.font = this.font;
+        return this.measureContext.measureText(text);
+    }
+
+    drawImage(image: HTMLImageElement, x: number, y: number, width: number, height: number) {
+        this.elements.push(
+            `<image href="${escape(image.src)}" x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}"${this.opacity()}/>`
+        );
+    }
+
+    setLineDash(segments: number[]) {
+        this.lineDash = segments;
+    }
+
+    /**
+     * Append raw SVG markup (used for links and the note legend)
+     */
+    append(markup: string) {
+        this.elements.push(markup);
+    }
+
+    toString(background: string): string {
+        const { width, height } = this.canvas;
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+            `<rect width="100%" height="100%" fill="${escape(background)}"/>`,
+            ...this.elements,
+            '</svg>',
+            ''
+        ].join('\n');
+    }
+
+    private opacity(): string {
+        return this.globalAlpha < 1 ? ` opacity="${num(this.globalAlpha)}"` : '';
+    }
+
+    private strokeAttributes(): string {
+        const dash = this.lineDash.length > 0 ? ` stroke-dasharray="${this.lineDash.join(' ')}"` : '';
+        return `stroke="${escape(this.strokeStyle)}" stroke-width="${num(this.lineWidth)}"${dash}`;
+    }
+}
+
+function num(value: number): string {
+    return (Math.round(value * 100) / 100).toString();
+}
+
+function escape(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+export class GraphExporter {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Render a graph as a standalone SVG document
+     * Linked vertices link back into the vault and are listed with their notes below the graph
+     */
+    async buildSVG(graph: GraphGeometry, doc: GraphDocument, getLensNode?: (vertexIndex: number) => ConceptualNode | null): Promise<string> {
+        graph = applyLayout(graph, doc.layout);
+        const linked = graph.vertices.filter(vertex => doc.nodes[vertex.index]?.noteFile);
+        const legendHeight = linked.length > 0 ? 30 + linked.length * 18 : 0;
+
+        const context = new SvgContext(EXPORT_SIZE, EXPORT_SIZE + legendHeight);
+        const renderer = this.createRenderer(context as unknown as CanvasRenderingContext2D, graph, doc, getLensNode);
+        await renderer.loadIcons();
+        renderer.draw();
+
+        const vault = encodeURIComponent(this.app.vault.getName());
+
+        // Clickable hotspots over linked vertices
+        for (const vertex of linked) {
+            const noteFile = doc.nodes[vertex.index].noteFile;
+            const x = renderer.offsetX + vertex.x * renderer.scale;
+            const y = renderer.offsetY - vertex.y * renderer.scale;
+            context.append(
+                `<a href="obsidian://open?vault=${vault}&amp;file=${encodeURIComponent(noteFile)}">` +
+                `<title>${escape(noteFile)}</title>` +
+                `<circle cx="${num(x)}" cy="${num(y)}" r="12" fill="transparent"/></a>`
+            );
+        }
+
+        // Legend: vertex label → linked note
+        const textColor = renderer.getThemeColor('--text-normal') || '#222222';
+        const mutedColor = renderer.getThemeColor('--text-muted') || '#888888';
+        linked.forEach((vertex, i) => {
+            const settings = doc.nodes[vertex.index];
+            const label = settings.label || vertex.label;
+            const y = EXPORT_SIZE + 20 + i * 18;
+            context.append(
+                `<text x="24" y="${y}" style="font: 12px sans-serif" fill="${escape(textColor)}">${escape(label)}` +
+                `<tspan fill="${escape(mutedColor)}"> → ${escape(settings.noteFile)}</tspan></text>`
+            );
+        });
+
+        return context.toString(this.getBackground(renderer));
+    }
+
+    /**
+     * Render a graph as PNG data
+     * @param pixelRatio Output resolution multiplier (2 gives a 1600×1600 image)
+     */
+    async buildPNG(
+        graph: GraphGeometry,
+        doc: GraphDocument,
+        pixelRatio: number,
+        getLensNode?: (vertexIndex: number) => ConceptualNode | null
+    ): Promise<ArrayBuffer> {
+        const canvas = document.createElement('canvas');
+        canvas.width = EXPORT_SIZE * pixelRatio;
+        canvas.height = EXPORT_SIZE * pixelRatio;
+
+        const ctx = canvas.getContext('2d')!;
+        ctx.scale(pixelRatio, pixelRatio);
+
+        const renderer = this.createRenderer(ctx, applyLayout(graph, doc.layout), doc, getLensNode);
+        await renderer.loadIcons();
+        renderer.draw();
+
+        // Paint the background behind the graph (the renderer leaves it transparent)
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = this.getBackground(renderer);
+        ctx.fillRect(0, 0, EXPORT_SIZE, EXPORT_SIZE);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) {
+            throw new Error('Could not encode PNG');
+        }
+        return await blob.arrayBuffer();
+    }
+
+    /**
+     * Build Obsidian Canvas JSON with one card per vertex and the visible edges
+     */
+    buildCanvas(
+        graph: GraphGeometry,
+        doc: GraphDocument,
+        sourcePath: string,
+        getLensNode?: (vertexIndex: number) => ConceptualNode | null
+    ): string {
+        const linkText = (path: string) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, sourcePath, true) : path;
+        };
+
+        return JSON.stringify(buildCanvas(applyLayout(graph, doc.layout), doc, linkText, getLensNode), null, '\t');
+    }
+
+    /**
+     * Save a canvas into a folder, creating the folder if needed
+     * Canvases are documents in their own right, so they do not go to the attachment folder
+     */
+    async saveCanvas(baseName: string, data: string, folder: string): Promise<TFile> {
+        const folderPath = normalizePath(folder || '/');
+        if (folderPath !== '/' && !(this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const fileName = baseName.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'graph';
+        const prefix = folderPath === '/' ? '' : `${folderPath}/`;
+        let path = `${prefix}${fileName}.canvas`;
+        for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+            path = `${prefix}${fileName} ${i}.canvas`;
+        }
+
+        return await this.app.vault.create(path, data);
+    }
+
+    /**
+     * Save exported data where the vault keeps attachments for a note
+     * @param sourcePath Note the attachment belongs to (decides the attachment folder)
+     */
+    async save(baseName: string, extension: 'svg' | 'png', data: string | ArrayBuffer, sourcePath: string): Promise<TFile> {
+        const fileName = `${baseName.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'graph'}.${extension}`;
+        const path = await this.app.fileManager.getAvailablePathForAttachment(fileName, sourcePath);
+
+        return typeof data === 'string'
+            ? await this.app.vault.create(path, data)
+            : await this.app.vault.createBinary(path, data);
+    }
+
+    private createRenderer(
+        ctx: CanvasRenderingContext2D,
+        graph: GraphGeometry,
+        doc: GraphDocument,
+        getLensNode?: (vertexIndex: number) => ConceptualNode | null
+    ): GraphRenderer {
+        const renderer = new GraphRenderer(this.app, ctx, graph, doc);
+        if (getLensNode) {
+            renderer.getLensNode = getLensNode;
+        }
+        renderer.fitTo(EXPORT_SIZE, EXPORT_SIZE);
+        return renderer;
+    }
+
+    private getBackground(renderer: GraphRenderer): string {
+        return renderer.getThemeColor('--background-primary') || '#ffffff';
+    }
+}
@@ -0,0 +1,304 @@
+/**
+ * Graph Files - Stores graph instances as `.systematics.md` notes
+ * The frontmatter describes the geometry, labels and linked notes, so graphs can be
+ * linked, versioned and shared like any other note
+ */
+
+import { App, TFile, normalizePath, parseLinktext, stringifyYaml } from 'obsidian';
+import { GraphDocument, GraphInstance, NodeLabelSettings, EdgeLabelSettings, VertexLayout, VertexShape } from './types';
+import { VERTEX_SHAPES } from './graphRenderer';
+import { isRecord } from './graphData';
+
+export const GRAPH_FILE_SUFFIX = '.systematics.md';
+
+// Frontmatter key identifying a graph file (its value is the geometry name)
+const GRAPH_KEY = 'systematics-graph';
+
+// Node and edge entries as written to frontmatter, with linked notes as wikilinks under `note`
+type NodeEntry = Omit<NodeLabelSettings[number], 'noteFile'> & { note?: string };
+type EdgeEntry = Omit<EdgeLabelSettings[string], 'noteFile'> & { note?: string };
+
+export function isGraphFile(file: unknown): file is TFile {
+    return file instanceof TFile && file.path.endsWith(GRAPH_FILE_SUFFIX);
+}
+
+export class GraphFileStore {
+    private app: App;
+    private instances: GraphInstance[] = [];
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Re-scan the vault for graph files (uses the metadata cache, no file reads)
+     */
+    refresh() {
+        this.instances = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const instance = this.getInstance(file);
+            if (instance) {
+                this.instances.push(instance);
+            }
+        }
+
+        this.instances.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * File-backed instances of a geometry
+     */
+    getInstances(graphName: string): GraphInstance[] {
+        return this.instances.filter(instance => instance.graph === graphName);
+    }
+
+    getInstance(file: TFile): GraphInstance | null {
+        if (!isGraphFile(file)) return null;
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const graph = frontmatter?.[GRAPH_KEY];
+        if (typeof graph !== 'string' || !graph) return null;
+
+        return {
+            id: file.path,
+            name: typeof frontmatter?.name === 'string' && frontmatter.name ? frontmatter.name : this.baseName(file),
+            graph,
+            file: file.path
+        };
+    }
+
+    /**
+     * Read a graph document from a file's frontmatter
+     */
+    read(instance: GraphInstance): GraphDocument {
+        const file = this.app.vault.getAbstractFileByPath(instance.file || '');
+        const frontmatter = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : null;
+        return this.parseDocument(frontmatter || {}, instance.graph, instance.name, instance.file || '');
+    }
+
+    /**
+     * Build a graph document from frontmatter-shaped data (also used for embedded graphs)
+     * @param sourcePath Path that note links are resolved relative to
+     */
+    parseDocument(data: Record<string, unknown>, graph: string, name: string, sourcePath: string): GraphDocument {
+        const nodes: NodeLabelSettings = {};
+        for (const [index, node] of Object.entries(isRecord(data.nodes) ? data.nodes : {})) {
+            if (!isRecord(node)) continue;
+            nodes[Number(index)] = this.parseNode(node, sourcePath);
+        }
+
+        const edges: EdgeLabelSettings = {};
+        for (const [edgeKey, edge] of Object.entries(isRecord(data.edges) ? data.edges : {})) {
+            if (!isRecord(edge)) continue;
+            edges[edgeKey] = {
+                label: typeof edge.label === 'string' ? edge.label : '',
+                noteFile: this.resolveLink(edge.note, sourcePath)
+            };
+        }
+
+        const hidden = data['hidden-edge-types'];
+
+        let layout: VertexLayout | undefined;
+        if (isRecord(data.layout)) {
+            layout = {};
+            for (const [key, position] of Object.entries(data.layout)) {
+                const index = parseInt(key);
+                if (isNaN(index) || !isRecord(position) ||
+                    typeof position.x !== 'number' || typeof position.y !== 'number') continue;
+                layout[index] = { x: position.x, y: position.y };
+            }
+        }
+
+        return {
+            graph,
+            name,
+            nodes,
+            edges,
+            hiddenEdgeTypes: Array.isArray(hidden) ? hidden.filter((t): t is string => typeof t === 'string') : [],
+            layout
+        };
+    }
+
+    /**
+     * Label, link and style of a vertex; values of the wrong type are left out
+     */
+    private parseNode(node: Record<string, unknown>, sourcePath: string): NodeLabelSettings[number] {
+        const settings: NodeLabelSettings[number] = {
+            label: typeof node.label === 'string' ? node.label : '',
+            noteFile: this.resolveLink(node.note, sourcePath)
+        };
+
+        if (typeof node.labelOffsetX === 'number') settings.labelOffsetX = node.labelOffsetX;
+        if (typeof node.labelOffsetY === 'number') settings.labelOffsetY = node.labelOffsetY;
+        if (typeof node.color === 'string') settings.color = node.color;
+        if (typeof node.icon === 'string') settings.icon = node.icon;
+        if (VERTEX_SHAPES.some(({ shape }) => shape === node.shape)) settings.shape = node.shape as VertexShape;
+
+        return settings;
+    }
+
+    /**
+     * Write a graph document into a file's frontmatter, leaving the note body untouched
+     */
+    async write(path: string, doc: GraphDocument) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            throw new Error(`Graph file not found: ${path}`);
+        }
+
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            this.writeFrontmatter(frontmatter, doc, path);
+        });
+    }
+
+    /**
+     * Create a new graph file in a folder
+     * @returns The instance stored in the file (named after it, made unique if needed)
+     */
+    async create(folder: string, doc: GraphDocument): Promise<GraphInstance> {
+        const folderPath = normalizePath(folder.trim() || '/');
+        if (folderPath !== '/' && !this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const path = this.availablePath(folderPath, this.fileName(doc));
+
+        const frontmatter: Record<string, unknown> = {};
+        this.writeFrontmatter(frontmatter, doc, path);
+
+        const content = [
+            '---',
+            stringifyYaml(frontmatter).trimEnd(),
+            '---',
+            `# ${doc.name}`,
+            '',
+            `A ${doc.graph} systematics graph. Open it with **Open in Systematics graph** from the file menu or command palette.`,
+            ''
+        ].join('\n');
+
+        await this.app.vault.create(path, content);
+
+        // Listed straight away; the metadata cache catches up asynchronously
+        const instance: GraphInstance = { id: path, name: doc.name, graph: doc.graph, file: path };
+        this.instances.push(instance);
+        return instance;
+    }
+
+    /**
+     * Rename a graph file to match a new instance name
+     * @returns The new vault path
+     */
+    async rename(path: string, doc: GraphDocument): Promise<string> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            throw new Error(`Graph file not found: ${path}`);
+        }
+
+        await this.write(path, doc);
+
+        const folderPath = file.parent ? file.parent.path : '/';
+        const newPath = this.availablePath(folderPath, this.fileName(doc), file.path);
+        if (newPath !== file.path) {
+            await this.app.fileManager.renameFile(file, newPath);
+        }
+        return newPath;
+    }
+
+    async trash(path: string) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            await this.app.fileManager.trashFile(file);
+        }
+    }
+
+    /**
+     * Point every graph file of a geometry at its new name
+     */
+    async retarget(previousGraph: string, graph: string) {
+        for (const instance of this.getInstances(previousGraph)) {
+            const file = this.app.vault.getAbstractFileByPath(instance.file || '');
+            if (file instanceof TFile) {
+                await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                    frontmatter[GRAPH_KEY] = graph;
+                });
+            }
+        }
+    }
+
+    private writeFrontmatter(frontmatter: Record<string, unknown>, doc: GraphDocument, sourcePath: string) {
+        frontmatter[GRAPH_KEY] = doc.graph;
+        frontmatter.name = doc.name;
+
+        // Linked notes are stored as wikilinks so they show up in backlinks and survive renames
+        const nodes: Record<string, NodeEntry> = {};
+        for (const [index, node] of Object.entries(doc.nodes)) {
+            const { noteFile, ...rest } = node;
+            nodes[index] = noteFile ? { ...rest, note: this.toLink(noteFile, sourcePath) } : rest;
+        }
+
+        const edges: Record<string, EdgeEntry> = {};
+        for (const [edgeKey, edge] of Object.entries(doc.edges)) {
+            const { noteFile, ...rest } = edge;
+            edges[edgeKey] = noteFile ? { ...rest, note: this.toLink(noteFile, sourcePath) } : rest;
+        }
+
+        frontmatter.nodes = nodes;
+        frontmatter.edges = edges;
+
+        if (doc.hiddenEdgeTypes.length > 0) {
+            frontmatter['hidden-edge-types'] = doc.hiddenEdgeTypes;
+        } else {
+            delete frontmatter['hidden-edge-types'];
+        }
+
+        // Zoom and pan live in plugin data; earlier versions kept them here
+        delete frontmatter.viewport;
+
+        if (doc.layout && Object.keys(doc.layout).length > 0) {
+            const layout: Record<string, { x: number; y: number }> = {};
+            for (const [index, position] of Object.entries(doc.layout)) {
+                layout[index] = { x: Math.round(position.x * 1000) / 1000, y: Math.round(position.y * 1000) / 1000 };
+            }
+            frontmatter.layout = layout;
+        } else {
+            delete frontmatter.layout;
+        }
+    }
+
+    private toLink(path: string, sourcePath: string): string {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        const linktext = file instanceof TFile
+            ? this.app.metadataCache.fileToLinktext(file, sourcePath, true)
+            : path.replace(/\.md$/, '');
+        return `[[${linktext}]]`;
+    }
+
+    resolveLink(link: unknown, sourcePath: string): string {
+        if (typeof link !== 'string' || !link.trim()) return '';
+
+        const linktext = link.trim().replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0];
+        const { path } = parseLinktext(linktext);
+        const file = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+        return file ? file.path : path;
+    }
+
+    private fileName(doc: GraphDocument): string {
+        const name = doc.name.startsWith(doc.graph) ? doc.name : `${doc.graph} ${doc.name}`;
+        return name.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || doc.graph;
+    }
+
+    private availablePath(folderPath: string, name: string, currentPath?: string): string {
+        const prefix = folderPath === '/' ? '' : `${folderPath}/`;
+
+        let path = normalizePath(`${prefix}${name}${GRAPH_FILE_SUFFIX}`);
+        for (let n = 2; path !== currentPath && this.app.vault.getAbstractFileByPath(path); n++) {
+            path = normalizePath(`${prefix}${name} ${n}${GRAPH_FILE_SUFFIX}`);
+        }
+        return path;
+    }
+
+    private baseName(file: TFile): string {
+        return file.name.slice(0, -GRAPH_FILE_SUFFIX.length);
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Graph Import - Reads the vertices of a graph from a canvas or a list of wikilinks
+ * The number of cards or links decides which Kn the notes are mapped onto
+ */
+
+import { App, TFile, getLinkpath } from 'obsidian';
+import { NodeLabelSettings } from './types';
+import { parseCanvasCards } from './canvasFormat';
+
+export class GraphImporter {
+    constructor(private app: App) {}
+
+    /**
+     * Whether a file can be imported (a canvas or a markdown note)
+     */
+    static canImport(file: TFile): boolean {
+        return file.extension === 'canvas' || file.extension === 'md';
+    }
+
+    /**
+     * Vertex labels and notes from a canvas or note, in order
+     */
+    async readVertices(file: TFile): Promise<NodeLabelSettings[number][]> {
+        if (file.extension === 'canvas') {
+            return parseCanvasCards(await this.app.vault.cachedRead(file));
+        }
+        return this.readLinkList(file);
+    }
+
+    /**
+     * Wikilinks of a note in order, each linked note once
+     * Links inside list items are used when the note has any, so prose around the list is ignored
+     */
+    private readLinkList(file: TFile): NodeLabelSettings[number][] {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const links = cache?.links || [];
+
+        const listLines = new Set<number>();
+        for (const item of cache?.listItems || []) {
+            for (let line = item.position.start.line; line <= item.position.end.line; line++) {
+                listLines.add(line);
+            }
+        }
+        const listed = links.filter(link => listLines.has(link.position.start.line));
+
+        const seen = new Set<string>();
+        const vertices: NodeLabelSettings[number][] = [];
+
+        for (const link of listed.length > 0 ? listed : links) {
+            const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path);
+            const key = target?.path || link.link;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            // Keep an alias as the label; otherwise the note title is shown
+            const alias = link.displayText && link.displayText !== link.link ? link.displayText : '';
+            vertices.push(target
+                ? { label: alias, noteFile: target.path }
+                : { label: alias || link.link, noteFile: '' });
+        }
+
+        return vertices;
+    }
+}
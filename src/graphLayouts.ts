@@ -0,0 +1,164 @@
+/**
+ * Graph Layouts - Vertex position overrides and layout presets
+ * An instance may move vertices away from the positions its geometry defines;
+ * presets fill in every position at once
+ */
+
+import { GraphGeometry, VertexLayout } from './types';
+import { generateRegularPolygon } from './graphData';
+
+export interface LayoutPreset {
+    id: string;
+    name: string;
+    icon: string;
+    // Positions for every vertex, or null to use the geometry's own (canonical) layout
+    build: (graph: GraphGeometry) => VertexLayout | null;
+}
+
+export const LAYOUT_PRESETS: LayoutPreset[] = [
+    {
+        id: 'canonical',
+        name: 'Canonical layout',
+        icon: 'rotate-ccw',
+        build: () => null
+    },
+    {
+        id: 'polygon',
+        name: 'Regular polygon',
+        icon: 'pentagon',
+        build: (graph) => toLayout(generateRegularPolygon(graph.order))
+    },
+    {
+        id: 'projected',
+        name: '3D projection',
+        icon: 'box',
+        build: (graph) => toLayout(projectPoints(getSpatialPoints(graph), -0.5, 0.35))
+    }
+];
+
+/**
+ * The geometry with an instance's vertex overrides applied
+ */
+export function applyLayout(graph: GraphGeometry, layout?: VertexLayout): GraphGeometry {
+    if (!layout || Object.keys(layout).length === 0) return graph;
+
+    return {
+        ...graph,
+        vertices: graph.vertices.map(vertex => {
+            const position = layout[vertex.index];
+            return position ? { ...vertex, x: position.x, y: position.y } : vertex;
+        })
+    };
+}
+
+/**
+ * 3D positions of a geometry's vertices
+ * Uses the geometry's z coordinates when it has any, otherwise the polyhedron
+ * with that many vertices (tetrahedron for K4, octahedron for K6, cube for K8, ...)
+ */
+export function getSpatialPoints(graph: GraphGeometry): { x: number; y: number; z: number }[] {
+    if (graph.vertices.some(vertex => vertex.z !== undefined && vertex.z !== 0)) {
+        return graph.vertices.map(vertex => ({ x: vertex.x, y: vertex.y, z: vertex.z || 0 }));
+    }
+    return polyhedronPoints(graph.order);
+}
+
+/**
+ * Vertices of a polyhedron with n corners on the unit sphere
+ */
+export function polyhedronPoints(n: number): { x: number; y: number; z: number }[] {
+    const s = 1 / Math.sqrt(3);
+    const phi = (1 + Math.sqrt(5)) / 2;
+
+    switch (n) {
+        case 4: // Tetrahedron
+            return [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]]
+                .map(([x, y, z]) => ({ x: x * s, y: y * s, z: z * s }));
+        case 5: // Triangular bipyramid
+            return [
+                { x: 0, y: 1, z: 0 },
+                ...[0, 1, 2].map(i => ({ x: Math.cos(i * 2 * Math.PI / 3), y: 0, z: Math.sin(i * 2 * Math.PI / 3) })),
+                { x: 0, y: -1, z: 0 }
+            ];
+        case 6: // Octahedron
+            return [
+                { x: 0, y: 1, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 0, z: 1 },
+                { x: -1, y: 0, z: 0 }, { x: 0, y: 0, z: -1 }, { x: 0, y: -1, z: 0 }
+            ];
+        case 8: // Cube
+            return [[1, 1, 1], [1, 1, -1], [-1, 1, -1], [-1, 1, 1], [1, -1, 1], [1, -1, -1], [-1, -1, -1], [-1, -1, 1]]
+                .map(([x, y, z]) => ({ x: x * s, y: y * s, z: z * s }));
+        case 12: { // Icosahedron
+            const r = Math.sqrt(1 + phi * phi);
+            return [
+                [0, 1, phi], [0, -1, phi], [0, 1, -phi], [0, -1, -phi],
+                [1, phi, 0], [-1, phi, 0], [1, -phi, 0], [-1, -phi, 0],
+                [phi, 0, 1], [-phi, 0, 1], [phi, 0, -1], [-phi, 0, -1]
+            ].map(([x, y, z]) => ({ x: x / r, y: y / r, z: z / r }));
+        }
+    }
+
+    if (n <= 3) {
+        // Too few vertices for a solid: a flat polygon
+        return generateRegularPolygon(n).map(vertex => ({ x: vertex.x, y: vertex.y, z: 0 }));
+    }
+
+    // Evenly spread points on a sphere (Fibonacci lattice)
+    const points: { x: number; y: number; z: number }[] = [];
+    for (let i = 0; i < n; i++) {
+        const y = 1 - (2 * i + 1) / n;
+        const radius = Math.sqrt(1 - y * y);
+        const angle = i * Math.PI * (3 - Math.sqrt(5));
+        points.push({ x: Math.cos(angle) * radius, y, z: Math.sin(angle) * radius });
+    }
+    return points;
+}
+
+/**
+ * Rotate points (yaw around the vertical axis, then pitch around the horizontal one)
+ * and project them onto the screen plane with perspective
+ * @returns Projected x/y and depth (larger z is nearer the viewer)
+ */
+export function projectPoints(
+    points: { x: number; y: number; z: number }[],
+    yaw: number,
+    pitch: number,
+    distance: number = 4
+): { x: number; y: number; z: number }[] {
+    const cosYaw = Math.cos(yaw), sinYaw = Math.sin(yaw);
+    const cosPitch = Math.cos(pitch), sinPitch = Math.sin(pitch);
+
+    return points.map(point => {
+        const x1 = point.x * cosYaw + point.z * sinYaw;
+        const z1 = -point.x * sinYaw + point.z * cosYaw;
+        const y2 = point.y * cosPitch - z1 * sinPitch;
+        const z2 = point.y * sinPitch + z1 * cosPitch;
+
+        const perspective = distance / (distance - z2);
+        return { x: x1 * perspective, y: y2 * perspective, z: z2 };
+    });
+}
+
+/**
+ * The geometry seen in 3D from a viewing angle: vertices at their projected
+ * positions, with each vertex's depth (-1 far to 1 near) for shading and draw order
+ */
+export function projectGraph(graph: GraphGeometry, yaw: number, pitch: number): { graph: GraphGeometry; depth: number[] } {
+    const points = projectPoints(getSpatialPoints(graph), yaw, pitch);
+
+    return {
+        graph: {
+            ...graph,
+            vertices: graph.vertices.map((vertex, i) => ({ ...vertex, x: points[i].x, y: points[i].y }))
+        },
+        depth: points.map(point => point.z)
+    };
+}
+
+function toLayout(points: { x: number; y: number }[]): VertexLayout {
+    const layout: VertexLayout = {};
+    points.forEach((point, index) => {
+        layout[index] = { x: Math.round(point.x * 1000) / 1000, y: Math.round(point.y * 1000) / 1000 };
+    });
+    return layout;
+}
@@ -0,0 +1,656 @@
+/**
+ * Graph Renderer - Draws a graph geometry with its labels and links on a canvas
+ * Shared by the graph view and graphs embedded in notes
+ */
+
+import { App, TFile, getIcon } from 'obsidian';
+import { GraphGeometry, GraphDocument, GraphViewport, Vertex, VertexShape, Edge, ConceptualNode } from './types';
+import { getEdgeType, getEdgeStyle, getEdgeKey } from './graphData';
+
+export const DEFAULT_VIEWPORT: GraphViewport = { zoom: 1, x: 0, y: 0 };
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 8;
+
+export const VERTEX_SHAPES: { shape: VertexShape; name: string }[] = [
+    { shape: 'circle', name: 'Circle' },
+    { shape: 'square', name: 'Square' },
+    { shape: 'diamond', name: 'Diamond' },
+    { shape: 'triangle', name: 'Triangle' },
+    { shape: 'hexagon', name: 'Hexagon' }
+];
+
+// Vertex icons rendered to images, keyed by icon and colour (shared by all renderers)
+const iconImages: Map<string, HTMLImageElement> = new Map();
+
+export class GraphRenderer {
+    app: App;
+    ctx: CanvasRenderingContext2D;
+    graph: GraphGeometry;
+    doc: GraphDocument;
+    scale: number = 150;
+    offsetX: number = 0;
+    offsetY: number = 0;
+    viewport: GraphViewport = { ...DEFAULT_VIEWPORT };
+    private baseScale: number = 150;
+    private displayWidth: number = 0;
+    private displayHeight: number = 0;
+    hoveredVertex: number | null = null;
+    hoveredEdge: number | null = null; // Index into graph.edges
+    selectedVertex: number | null = null;
+    hoveredLabel: number | null = null;
+    focusedVertex: number | null = null; // Vertex reached with the keyboard
+    depth: number[] | null = null; // Per-vertex depth in 3D mode (-1 far to 1 near)
+
+    // Conceptual node rendered at a vertex by an active lens, if any
+    getLensNode: (vertexIndex: number) => ConceptualNode | null = () => null;
+
+    // Called when a vertex icon finishes loading, so the owner can redraw
+    onIconLoaded: () => void = () => {};
+    private pendingIcons: Set<string> = new Set();
+
+    constructor(app: App, ctx: CanvasRenderingContext2D, graph: GraphGeometry, doc: GraphDocument) {
+        this.app = app;
+        this.ctx = ctx;
+        this.graph = graph;
+        this.doc = doc;
+    }
+
+    /**
+     * Center the graph in a display area, leaving room for labels
+     */
+    fitTo(displayWidth: number, displayHeight: number) {
+        this.displayWidth = displayWidth;
+        this.displayHeight = displayHeight;
+
+        // Adaptive scale based on canvas size with extra margin for labels
+        const minDimension = Math.min(displayWidth, displayHeight);
+        this.baseScale = (minDimension - 100) / 3; // More conservative scale for label space
+
+        this.applyViewport();
+    }
+
+    /**
+     * Zoom and pan on top of the fitted scale
+     */
+    setViewport(viewport: GraphViewport | undefined) {
+        this.viewport = viewport ? { ...viewport } : { ...DEFAULT_VIEWPORT };
+        this.applyViewport();
+    }
+
+    /**
+     * Zoom by a factor, keeping the graph point under (screenX, screenY) in place
+     */
+    zoomAt(screenX: number, screenY: number, factor: number) {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, this.viewport.zoom * factor));
+        const graphX = (screenX - this.offsetX) / this.scale;
+        const graphY = (this.offsetY - screenY) / this.scale;
+        const scale = this.baseScale * zoom;
+
+        this.viewport = {
+            zoom,
+            x: graphX - (screenX - this.displayWidth / 2) / scale,
+            y: graphY + (screenY - this.displayHeight / 2) / scale
+        };
+        this.applyViewport();
+    }
+
+    /**
+     * Move the graph by a distance in screen pixels
+     */
+    panBy(dx: number, dy: number) {
+        this.viewport = {
+            ...this.viewport,
+            x: this.viewport.x - dx / this.scale,
+            y: this.viewport.y + dy / this.scale
+        };
+        this.applyViewport();
+    }
+
+    /**
+     * Viewport that shows every vertex with room for its label
+     */
+    fitViewport(): GraphViewport {
+        const xs = this.graph.vertices.map(v => v.x);
+        const ys = this.graph.vertices.map(v => v.y);
+        if (xs.length === 0) return { ...DEFAULT_VIEWPORT };
+
+        const minX = Math.min(...xs), maxX = Math.max(...xs);
+        const minY = Math.min(...ys), maxY = Math.max(...ys);
+
+        // Labels sit up to ~80px outside their vertex
+        const margin = 200;
+        const fitScale = Math.min(
+            (this.displayWidth - margin) / Math.max(maxX - minX, 0.5),
+            (this.displayHeight - margin) / Math.max(maxY - minY, 0.5)
+        );
+
+        return {
+            zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, fitScale / this.baseScale)),
+            x: (minX + maxX) / 2,
+            y: (minY + maxY) / 2
+        };
+    }
+
+    private applyViewport() {
+        this.scale = this.baseScale * this.viewport.zoom;
+        this.offsetX = this.displayWidth / 2 - this.viewport.x * this.scale;
+        this.offsetY = this.displayHeight / 2 + this.viewport.y * this.scale;
+    }
+
+    draw() {
+        // Clear canvas
+        this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+
+        // Draw edges, skipping types the user switched off
+        this.graph.edges.forEach((edge, i) => {
+            if (this.doc.hiddenEdgeTypes.includes(getEdgeType(edge))) return;
+            if (this.depth) {
+                // Fade edges towards the back
+                this.ctx.globalAlpha = this.depthAlpha((this.depth[edge.from] + this.depth[edge.to]) / 2);
+            }
+            this.drawEdge(edge, i === this.hoveredEdge);
+        });
+        this.ctx.setLineDash([]);
+        if (this.depth) {
+            this.ctx.globalAlpha = 1;
+        }
+
+        // Draw vertices, back to front in 3D so nearer labels stay on top
+        const order = this.graph.vertices.map((_, i) => i);
+        if (this.depth) {
+            const depth = this.depth;
+            order.sort((a, b) => depth[a] - depth[b]);
+        }
+        for (const i of order) {
+            const vertex = this.graph.vertices[i];
+            this.drawVertex(vertex, i === this.hoveredVertex, i === this.selectedVertex);
+        }
+
+        if (this.focusedVertex !== null && this.graph.vertices[this.focusedVertex]) {
+            this.drawFocusRing(this.graph.vertices[this.focusedVertex]);
+        }
+    }
+
+    private depthAlpha(depth: number): number {
+        return 0.3 + 0.7 * Math.max(0, Math.min(1, (depth + 1) / 2));
+    }
+
+    /**
+     * Index of the vertex under a point, if any
+     */
+    findVertexAt(mouseX: number, mouseY: number): number | null {
+        let found: number | null = null;
+        for (let i = 0; i < this.graph.vertices.length; i++) {
+            const vertex = this.graph.vertices[i];
+            const x = this.offsetX + vertex.x * this.scale;
+            const y = this.offsetY - vertex.y * this.scale;
+            const distance = Math.sqrt((mouseX - x) ** 2 + (mouseY - y) ** 2);
+
+            if (distance <= 12) {
+                // In 3D the nearest of overlapping vertices wins
+                if (!this.depth) return i;
+                if (found === null || this.depth[i] > this.depth[found]) found = i;
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Index of the vertex whose label is under a point, if any
+     */
+    findLabelAt(mouseX: number, mouseY: number): number | null {
+        for (let i = 0; i < this.graph.vertices.length; i++) {
+            const labelPos = this.getLabelPosition(i);
+            if (!labelPos) continue;
+
+            const distance = Math.sqrt((mouseX - labelPos.x) ** 2 + (mouseY - labelPos.y) ** 2);
+            if (distance <= 30) { // Larger hit area for labels
+                return i;
+            }
+        }
+        return null;
+    }
+
+    drawEdge(edge: Edge, isHovered: boolean) {
+        const from = this.graph.vertices[edge.from];
+        const to = this.graph.vertices[edge.to];
+
+        let fromX = this.offsetX + from.x * this.scale;
+        let fromY = this.offsetY - from.y * this.scale; // Flip Y axis
+        let toX = this.offsetX + to.x * this.scale;
+        let toY = this.offsetY - to.y * this.scale;
+
+        const length = Math.hypot(toX - fromX, toY - fromY);
+        if (length === 0) return;
+        const dirX = (toX - fromX) / length;
+        const dirY = (toY - fromY) / length;
+
+        // Separate a directed edge from its reverse so both arrows stay visible
+        const hasReverse = edge.directed && this.graph.edges.some(
+            e => e !== edge && e.directed && e.from === edge.to && e.to === edge.from
+        );
+        if (hasReverse) {
+            fromX -= dirY * 4;
+            fromY += dirX * 4;
+            toX -= dirY * 4;
+            toY += dirX * 4;
+        }
+
+        const style = getEdgeStyle(edge);
+        const edgeSettings = this.doc.edges[getEdgeKey(edge)];
+
+        // Edges linked to a note stand out in the link colour
+        const color = edgeSettings?.noteFile
+            ? this.getThemeColor('--text-accent') || '#3b82f6'
+            : this.getThemeColor(style.color) || style.fallback;
+
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = style.width + (edgeSettings?.noteFile ? 1.5 : 0) + (isHovered ? 1.5 : 0);
+        this.ctx.setLineDash(style.dash);
+
+        // Directed edges end at the rim of the target vertex with an arrowhead
+        const endX = edge.directed ? toX - dirX * 12 : toX;
+        const endY = edge.directed ? toY - dirY * 12 : toY;
+
+        this.ctx.beginPath();
+        this.ctx.moveTo(fromX, fromY);
+        this.ctx.lineTo(endX, endY);
+        this.ctx.stroke();
+
+        if (edge.directed) {
+            const size = 8;
+            this.ctx.setLineDash([]);
+            this.ctx.fillStyle = color;
+            this.ctx.beginPath();
+            this.ctx.moveTo(endX, endY);
+            this.ctx.lineTo(endX - dirX * size - dirY * size / 2, endY - dirY * size + dirX * size / 2);
+            this.ctx.lineTo(endX - dirX * size + dirY * size / 2, endY - dirY * size - dirX * size / 2);
+            this.ctx.closePath();
+            this.ctx.fill();
+        }
+
+        // Priority: custom label > linked note title > label from the geometry
+        let label = edge.label;
+        if (edgeSettings?.label) {
+            label = edgeSettings.label;
+        } else if (edgeSettings?.noteFile) {
+            label = this.getNoteTitleFromPath(edgeSettings.noteFile) || label;
+        }
+
+        if (label) {
+            this.drawEdgeLabel(label, (fromX + toX) / 2, (fromY + toY) / 2, color, !!edgeSettings?.noteFile);
+        }
+    }
+
+    drawEdgeLabel(text: string, x: number, y: number, color: string, isLinked: boolean) {
+        this.ctx.font = '11px sans-serif';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+
+        // Knock out the line behind the text so it stays legible
+        const width = this.ctx.measureText(text).width + 8;
+        this.ctx.fillStyle = this.getThemeColor('--background-primary') || '#ffffff';
+        this.ctx.fillRect(x - width / 2, y - 8, width, 16);
+
+        this.ctx.fillStyle = color;
+        this.ctx.fillText(text, x, y);
+
+        // Underline linked labels like links in a note
+        if (isLinked) {
+            this.ctx.fillRect(x - width / 2 + 4, y + 6, width - 8, 1);
+        }
+    }
+
+    /**
+     * Index of the visible edge within a few pixels of a point, if any
+     */
+    findEdgeAt(mouseX: number, mouseY: number): number | null {
+        const hidden = this.doc.hiddenEdgeTypes;
+        let nearest: number | null = null;
+        let nearestDistance = 6; // Hit tolerance in pixels
+
+        this.graph.edges.forEach((edge, i) => {
+            if (hidden.includes(getEdgeType(edge))) return;
+
+            const from = this.graph.vertices[edge.from];
+            const to = this.graph.vertices[edge.to];
+            const distance = this.distanceToSegment(
+                mouseX, mouseY,
+                this.offsetX + from.x * this.scale, this.offsetY - from.y * this.scale,
+                this.offsetX + to.x * this.scale, this.offsetY - to.y * this.scale
+            );
+
+            if (distance <= nearestDistance) {
+                nearestDistance = distance;
+                nearest = i;
+            }
+        });
+
+        return nearest;
+    }
+
+    distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+        const dx = x2 - x1;
+        const dy = y2 - y1;
+        const lengthSquared = dx * dx + dy * dy;
+
+        // Project the point onto the segment, clamped to its ends
+        const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared));
+        return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+    }
+
+    getThemeColor(cssVar: string): string | null {
+        const style = getComputedStyle(document.body);
+        const color = style.getPropertyValue(cssVar).trim();
+        return color || null;
+    }
+
+    /**
+     * A stored colour: either a theme variable ("--color-red") or any CSS colour
+     */
+    resolveColor(color: string): string | null {
+        return color.startsWith('--') ? this.getThemeColor(color) : color;
+    }
+
+    /**
+     * Label shown for a vertex
+     * Priority: lens node > custom label > note title (if note is linked) > default vertex label
+     */
+    getVertexLabel(vertex: Vertex): string {
+        const customLabel = this.doc.nodes[vertex.index];
+        const lensNode = this.getLensNode(vertex.index);
+
+        if (lensNode) {
+            return `${lensNode.label} (${lensNode.notes.length})`;
+        }
+        if (customLabel?.noteFile) {
+            return customLabel.label || this.getNoteTitleFromPath(customLabel.noteFile) || vertex.label;
+        }
+        return customLabel?.label || vertex.label;
+    }
+
+    /**
+     * Add a vertex outline of a given shape to the current path
+     * Polygons are sized to cover about the same area as the circle
+     */
+    traceShape(shape: VertexShape, x: number, y: number, radius: number) {
+        const polygon = (sides: number, size: number, rotation: number) => {
+            for (let i = 0; i < sides; i++) {
+                const angle = rotation + (2 * Math.PI * i) / sides;
+                const px = x + size * Math.cos(angle);
+                const py = y + size * Math.sin(angle);
+                if (i === 0) {
+                    this.ctx.moveTo(px, py);
+                } else {
+                    this.ctx.lineTo(px, py);
+                }
+            }
+            this.ctx.closePath();
+        };
+
+        switch (shape) {
+            case 'square':
+                this.ctx.rect(x - radius * 0.9, y - radius * 0.9, radius * 1.8, radius * 1.8);
+                break;
+            case 'diamond':
+                polygon(4, radius * 1.25, -Math.PI / 2);
+                break;
+            case 'triangle':
+                polygon(3, radius * 1.4, -Math.PI / 2);
+                break;
+            case 'hexagon':
+                polygon(6, radius * 1.1, 0);
+                break;
+            default:
+                this.ctx.arc(x, y, radius, 0, 2 * Math.PI);
+        }
+    }
+
+    /**
+     * A Lucide icon as an image in a colour, loaded on first use
+     */
+    getIconImage(icon: string, color: string): HTMLImageElement | null {
+        const key = `${icon}|${color}`;
+        let image = iconImages.get(key);
+
+        if (!image) {
+            const svg = getIcon(icon);
+            if (!svg) return null;
+
+            svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+            svg.setAttribute('color', color);
+            svg.setAttribute('width', '24');
+            svg.setAttribute('height', '24');
+
+            image = new Image();
+            image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.outerHTML)}`;
+            iconImages.set(key, image);
+        }
+
+        if (!image.complete && !this.pendingIcons.has(key)) {
+            this.pendingIcons.add(key);
+            image.addEventListener('load', () => {
+                this.pendingIcons.delete(key);
+                this.onIconLoaded();
+            }, { once: true });
+        }
+        return image;
+    }
+
+    /**
+     * Wait until the icons of the current document are ready to draw (for one-off renders)
+     */
+    async loadIcons(): Promise<void> {
+        const color = this.getThemeColor('--text-on-accent') || '#ffffff';
+        const images = Object.values(this.doc.nodes)
+            .filter(node => node.icon)
+            .map(node => this.getIconImage(node.icon!, color))
+            .filter((image): image is HTMLImageElement => !!image && !image.complete);
+
+        await Promise.all(images.map(image => new Promise<void>(resolve => {
+            image.addEventListener('load', () => resolve(), { once: true });
+            image.addEventListener('error', () => resolve(), { once: true });
+        })));
+    }
+
+    /**
+     * Keyboard focus ring around a vertex
+     */
+    drawFocusRing(vertex: Vertex) {
+        const x = this.offsetX + vertex.x * this.scale;
+        const y = this.offsetY - vertex.y * this.scale;
+
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, 17, 0, 2 * Math.PI);
+        this.ctx.strokeStyle = this.getThemeColor('--interactive-accent') || '#3b82f6';
+        this.ctx.lineWidth = 2;
+        this.ctx.setLineDash([4, 3]);
+        this.ctx.stroke();
+        this.ctx.setLineDash([]);
+    }
+
+    drawVertex(vertex: Vertex, isHovered: boolean, isSelected: boolean) {
+        const x = this.offsetX + vertex.x * this.scale;
+        const y = this.offsetY - vertex.y * this.scale;
+        // Get custom label if exists
+        const customLabel = this.doc.nodes[vertex.index];
+        const lensNode = this.getLensNode(vertex.index);
+        const hasNote = lensNode || (customLabel && customLabel.noteFile);
+
+        // Vertices with an icon are drawn larger to fit it
+        const baseRadius = customLabel?.icon ? 14 : 10;
+        const radius = isHovered ? baseRadius + 2 : baseRadius;
+
+        // Draw node shape
+        this.ctx.beginPath();
+        this.traceShape(customLabel?.shape || 'circle', x, y, radius);
+
+        // Theme colours: accent for linked vertices, faint text colour otherwise,
+        // unless the vertex has a colour of its own
+        const customColor = customLabel?.color ? this.resolveColor(customLabel.color) : null;
+        if (customColor) {
+            this.ctx.fillStyle = customColor;
+        } else if (hasNote) {
+            this.ctx.fillStyle = isSelected
+                ? this.getThemeColor('--interactive-accent-hover') || '#3b82f6'
+                : this.getThemeColor('--interactive-accent') || '#60a5fa';
+        } else {
+            this.ctx.fillStyle = isSelected
+                ? this.getThemeColor('--text-muted') || '#6b7280'
+                : this.getThemeColor('--text-faint') || '#9ca3af';
+        }
+
+        this.ctx.fill();
+
+        // Add stroke for better visibility
+        if (isHovered || isSelected) {
+            this.ctx.strokeStyle = this.getThemeColor('--interactive-accent') || '#3b82f6';
+            this.ctx.lineWidth = 3;
+            this.ctx.stroke();
+        } else {
+            this.ctx.strokeStyle = this.getThemeColor('--background-modifier-border') || '#333333';
+            this.ctx.lineWidth = 1.5;
+            this.ctx.stroke();
+        }
+
+        if (customLabel?.icon) {
+            const image = this.getIconImage(customLabel.icon, this.getThemeColor('--text-on-accent') || '#ffffff');
+            if (image?.complete) {
+                const size = radius * 1.1;
+                this.ctx.drawImage(image, x - size / 2, y - size / 2, size, size);
+            }
+        }
+
+        // Always use bold font for measuring to ensure consistent wrapping
+        this.ctx.font = 'bold 12px sans-serif';
+
+        // Draw label positioned radially outside the graph
+        const lines = this.wrapText(this.getVertexLabel(vertex), 120);
+
+        // Set actual font based on hover state
+        this.ctx.font = isHovered ? 'bold 12px sans-serif' : '12px sans-serif';
+        const lineHeight = 18;
+
+        // Calculate direction from center to node (for radial positioning)
+        const dx = x - this.offsetX;
+        const dy = y - this.offsetY;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const direction = this.labelDirection(dx, dy, distance);
+
+        // Position text outside the graph (50px beyond the node) with custom offset
+        const baseOffsetX = customLabel?.labelOffsetX || 0;
+        const baseOffsetY = customLabel?.labelOffsetY || 0;
+        const labelDistance = distance + radius + 50;
+        const labelX = this.offsetX + direction.x * labelDistance + baseOffsetX;
+        const labelY = this.offsetY + direction.y * labelDistance + baseOffsetY;
+
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+
+        // Draw text with background for better visibility
+        const totalHeight = lines.length * lineHeight;
+        const startY = labelY - totalHeight / 2;
+        const isLabelHovered = this.hoveredLabel === vertex.index;
+
+        lines.forEach((line, index) => {
+            const textY = startY + (index * lineHeight) + lineHeight / 2;
+            const metrics = this.ctx.measureText(line);
+            const textWidth = metrics.width;
+            const padding = isLabelHovered ? 6 : 4;
+
+            // Draw background rectangle with hover effect
+            this.ctx.fillStyle = isLabelHovered
+                ? this.getThemeColor('--background-secondary') || '#e6f0ff'
+                : this.getThemeColor('--background-primary') || '#ffffff';
+            this.ctx.globalAlpha = isLabelHovered ? 0.95 : 0.9;
+            this.ctx.fillRect(
+                labelX - textWidth / 2 - padding,
+                textY - lineHeight / 2 - 1,
+                textWidth + padding * 2,
+                lineHeight + 2
+            );
+            this.ctx.globalAlpha = 1;
+
+            // Add border when hovered
+            if (isLabelHovered) {
+                this.ctx.strokeStyle = this.getThemeColor('--interactive-accent') || '#3b82f6';
+                this.ctx.lineWidth = 1;
+                this.ctx.strokeRect(
+                    labelX - textWidth / 2 - padding,
+                    textY - lineHeight / 2 - 1,
+                    textWidth + padding * 2,
+                    lineHeight + 2
+                );
+            }
+
+            this.ctx.fillStyle = this.getThemeColor('--text-normal') || '#000000';
+            this.ctx.fillText(line, labelX, textY);
+        });
+    }
+
+    wrapText(text: string, maxWidth: number): string[] {
+        const words = text.split(' ');
+        const lines: string[] = [];
+        let currentLine = '';
+
+        for (const word of words) {
+            const testLine = currentLine ? `${currentLine} ${word}` : word;
+            const metrics = this.ctx.measureText(testLine);
+
+            if (metrics.width > maxWidth && currentLine) {
+                lines.push(currentLine);
+                currentLine = word;
+            } else {
+                currentLine = testLine;
+            }
+        }
+
+        if (currentLine) {
+            lines.push(currentLine);
+        }
+
+        return lines;
+    }
+
+    getLabelPosition(vertexIndex: number): { x: number, y: number } | null {
+        const vertex = this.graph.vertices[vertexIndex];
+        const x = this.offsetX + vertex.x * this.scale;
+        const y = this.offsetY - vertex.y * this.scale;
+        const radius = 10;
+
+        const customLabel = this.doc.nodes[vertexIndex];
+
+        const dx = x - this.offsetX;
+        const dy = y - this.offsetY;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const direction = this.labelDirection(dx, dy, distance);
+
+        const baseOffsetX = customLabel?.labelOffsetX || 0;
+        const baseOffsetY = customLabel?.labelOffsetY || 0;
+        const labelDistance = distance + radius + 50;
+        const labelX = this.offsetX + direction.x * labelDistance + baseOffsetX;
+        const labelY = this.offsetY + direction.y * labelDistance + baseOffsetY;
+
+        return { x: labelX, y: labelY };
+    }
+
+    /**
+     * Unit vector from the graph's center towards a vertex; a vertex on the center
+     * (e.g. a projected pole) gets its label straight above it
+     */
+    private labelDirection(dx: number, dy: number, distance: number): { x: number, y: number } {
+        if (distance === 0) {
+            return { x: 0, y: -1 };
+        }
+        return { x: dx / distance, y: dy / distance };
+    }
+
+    getNoteTitleFromPath(filePath: string): string | null {
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (file instanceof TFile) {
+            // Use the basename (filename without extension) as the title
+            return file.basename;
+        }
+        return null;
+    }
+}
@@ -1,26 +1,56 @@
-import { ItemView, WorkspaceLeaf, TFile, Menu } from 'obsidian';
-import { GraphGeometry, Vertex } from './types';
+import { ItemView, WorkspaceLeaf, TFile, Menu, Notice, setIcon, debounce } from 'obsidian';
+import { GraphGeometry, GraphDocument, NodeLabelSettings, EdgeLabelSettings, Monad, DyadView, SystematicView, ConceptualNode } from './types';
+import { EDGE_TYPE_STYLES, getEdgeType, getEdgeKey } from './graphData';
+import { GraphRenderer, DEFAULT_VIEWPORT, VERTEX_SHAPES } from './graphRenderer';
+import { LAYOUT_PRESETS, LayoutPreset, applyLayout, projectGraph } from './graphLayouts';
+import { GraphExporter, PNG_SCALES } from './graphExport';
 import SystematicsPlugin from '../main';
-import { TextInputModal, FileSuggestModal } from './modals';
+import { TextInputModal, FileSuggestModal, ConfirmModal, ColorModal, IconSuggestModal } from './modals';
 
 export const VIEW_TYPE_SYSTEMATICS = "systematics-graph-view";
 
+// Just short of straight down the vertical axis, where the poles would project onto the center
+const MAX_PITCH = Math.PI / 2 - 0.01;
+
 export class SystematicsGraphView extends ItemView {
     plugin: SystematicsPlugin;
     canvas: HTMLCanvasElement;
     ctx: CanvasRenderingContext2D;
+    graphSelector: HTMLSelectElement;
+    instanceSelector: HTMLSelectElement;
+    edgeFilter: HTMLElement;
+    lensPanel: HTMLElement;
     currentGraph: GraphGeometry;
-    scale: number = 150;
-    offsetX: number = 0;
-    offsetY: number = 0;
-    hoveredVertex: number | null = null;
-    selectedVertex: number | null = null;
-    hoveredLabel: number | null = null;
+    dyadView: DyadView | null = null;
+    systematicView: SystematicView | null = null;
+    renderer: GraphRenderer;
     draggingLabel: number | null = null;
+    draggingVertex: number | null = null;
+    vertexMoved: boolean = false;
     dragStartX: number = 0;
     dragStartY: number = 0;
     dragOffsetX: number = 0;
     dragOffsetY: number = 0;
+    panning: boolean = false;
+    panMoved: boolean = false;
+    panLastX: number = 0;
+    panLastY: number = 0;
+    suppressClick: boolean = false;
+
+    // 3D mode: the geometry's polyhedron seen from a rotatable angle
+    mode3d: boolean = false;
+    rotating: boolean = false;
+    yaw: number = -0.5;
+    pitch: number = 0.35;
+    toggle3dButton: HTMLElement;
+
+    // Keyboard navigation and the screen reader mirror of the canvas
+    focusedVertex: number | null = null;
+    accessibleList: HTMLElement;
+    announcer: HTMLElement;
+
+    // Wheel zoom arrives in bursts; persist once it settles
+    saveViewportSoon = debounce(() => this.saveViewport(), 1000, true);
 
     constructor(leaf: WorkspaceLeaf, plugin: SystematicsPlugin) {
         super(leaf);
@@ -50,35 +80,74 @@ export class SystematicsGraphView extends ItemView {
         // Graph selector
         const selectorLabel = controlsDiv.createEl('label', { text: 'Graph: ' });
         const selector = controlsDiv.createEl('select', { cls: 'dropdown' });
-
-        for (let i = 3; i <= 12; i++) {
-            const option = selector.createEl('option', {
-                value: i.toString(),
-                text: `K${i}`
-            });
-            if (i === this.plugin.settings.currentGraph) {
-                option.selected = true;
-            }
-        }
+        this.graphSelector = selector;
+        this.refreshGraphSelector();
 
         selector.addEventListener('change', (e) => {
             const target = e.target as HTMLSelectElement;
-            const graphOrder = parseInt(target.value);
-            this.plugin.settings.currentGraph = graphOrder;
+            this.plugin.settings.currentGraph = target.value;
             this.plugin.saveSettings();
-            this.loadGraph(graphOrder);
+            this.loadGraph(target.value);
         });
 
+        // Instance selector: several named label mappings onto the same geometry
+        controlsDiv.createEl('label', { text: 'Instance: ', cls: 'systematics-instance-label' });
+        this.instanceSelector = controlsDiv.createEl('select', { cls: 'dropdown' });
+        this.instanceSelector.addEventListener('change', async () => {
+            const instance = this.plugin.getInstances(this.currentGraph.name)
+                .find(i => i.id === this.instanceSelector.value);
+            if (instance) {
+                await this.plugin.selectInstance(instance);
+                this.onInstanceChanged();
+            }
+        });
+
+        const instanceActions = controlsDiv.createSpan({ cls: 'systematics-instance-actions' });
+        this.addIconButton(instanceActions, 'plus', 'New instance', () => this.promptCreateInstance(false));
+        this.addIconButton(instanceActions, 'copy', 'Duplicate instance', () => this.promptCreateInstance(true));
+        this.addIconButton(instanceActions, 'pencil', 'Rename instance', () => this.promptRenameInstance());
+        this.addIconButton(instanceActions, 'trash', 'Delete instance', () => this.confirmDeleteInstance());
+        this.addIconButton(instanceActions, 'file-text', 'Open graph file', () => this.openInstanceFile());
+
+        const viewActions = controlsDiv.createSpan({ cls: 'systematics-view-actions' });
+        this.addIconButton(viewActions, 'maximize', 'Fit graph to view', () => this.fitToView());
+        this.addIconButton(viewActions, 'layout-grid', 'Layout', (event) => this.showLayoutMenu(event));
+        this.toggle3dButton = this.addIconButton(viewActions, 'box', 'Toggle 3D view', () => this.toggle3d());
+        this.addIconButton(viewActions, 'download', 'Export graph', (event) => this.showExportMenu(event));
+
+        // Edge type toggles (only shown for graphs with typed edges)
+        this.edgeFilter = controlsDiv.createDiv({ cls: 'systematics-edge-filter' });
+
         // Instructions
         const instructions = controlsDiv.createDiv({ cls: 'systematics-instructions' });
         instructions.createEl('p', {
-            text: 'Click nodes to label/link. Drag labels to reposition them.'
+            text: 'Click nodes or edges to label/link. Drag nodes or labels to reposition them. Scroll to zoom, drag the background to pan.'
         });
 
         // Canvas
-        this.canvas = container.createEl('canvas', { cls: 'systematics-canvas' });
+        const listId = `systematics-nodes-${Math.random().toString(36).slice(2, 8)}`;
+        this.canvas = container.createEl('canvas', {
+            cls: 'systematics-canvas',
+            attr: {
+                tabindex: '0',
+                role: 'application',
+                'aria-roledescription': 'graph',
+                'aria-describedby': listId
+            }
+        });
         this.ctx = this.canvas.getContext('2d')!;
 
+        // Offscreen list of vertices and their notes for screen readers, and a live
+        // region announcing the vertex reached with the keyboard
+        this.accessibleList = container.createEl('ul', { cls: 'systematics-sr-only', attr: { id: listId } });
+        this.announcer = container.createDiv({ cls: 'systematics-sr-only', attr: { 'aria-live': 'polite' } });
+        this.renderer = new GraphRenderer(this.app, this.ctx, this.currentGraph, this.emptyDocument());
+        this.renderer.getLensNode = (vertexIndex) => this.getLensNode(vertexIndex);
+        this.renderer.onIconLoaded = () => this.draw();
+
+        // Lens details (shown when a dyad or monad is mapped onto the graph)
+        this.lensPanel = container.createDiv({ cls: 'systematics-lens-panel' });
+
         // Set canvas size
         this.resizeCanvas();
         window.addEventListener('resize', () => this.resizeCanvas());
@@ -87,7 +156,15 @@ export class SystematicsGraphView extends ItemView {
         this.canvas.addEventListener('mousemove', this.onMouseMove.bind(this));
         this.canvas.addEventListener('mousedown', this.onMouseDown.bind(this));
         this.canvas.addEventListener('mouseup', this.onMouseUp.bind(this));
+        this.canvas.addEventListener('mouseleave', this.onMouseUp.bind(this));
         this.canvas.addEventListener('click', this.onCanvasClick.bind(this));
+        this.canvas.addEventListener('wheel', this.onWheel.bind(this), { passive: false });
+        this.canvas.addEventListener('keydown', this.onKeyDown.bind(this));
+        this.canvas.addEventListener('focus', this.onCanvasFocus.bind(this));
+        this.canvas.addEventListener('blur', this.onCanvasBlur.bind(this));
+
+        // Colours come from the theme, so redraw when it changes
+        this.registerEvent(this.app.workspace.on('css-change', () => this.draw()));
 
         // Load initial graph
         this.loadGraph(this.plugin.settings.currentGraph);
@@ -114,191 +191,615 @@ export class SystematicsGraphView extends ItemView {
         this.ctx = this.canvas.getContext('2d')!;
         this.ctx.scale(dpr, dpr);
 
-        // Set offsets based on display size (not canvas size)
-        this.offsetX = displayWidth / 2;
-        this.offsetY = displayHeight / 2;
+        // Set offsets and scale based on display size (not canvas size)
+        this.renderer.fitTo(displayWidth, displayHeight);
+
+        this.draw();
+    }
+
+    /**
+     * Fill the graph selector with built-in and custom geometries
+     */
+    refreshGraphSelector() {
+        if (!this.graphSelector) return;
+
+        const selected = this.currentGraph?.name || this.plugin.settings.currentGraph;
+        this.graphSelector.empty();
+
+        for (const graph of this.plugin.getGraphs()) {
+            const option = this.graphSelector.createEl('option', {
+                value: graph.name,
+                text: graph.name
+            });
+            if (graph.name === selected) {
+                option.selected = true;
+            }
+        }
+
+        // The selected geometry may have been added, edited or removed (lenses keep their own)
+        if (this.currentGraph && !this.systematicView && !this.dyadView) {
+            this.loadGraph(this.plugin.settings.currentGraph);
+        }
+    }
 
-        // Adaptive scale based on canvas size with extra margin for labels
-        const minDimension = Math.min(displayWidth, displayHeight);
-        this.scale = (minDimension - 100) / 3; // More conservative scale for label space
+    loadGraph(name: string) {
+        const { GRAPHS } = require('./graphData');
+        this.currentGraph = this.plugin.getGraph(name) || GRAPHS[3];
+        this.graphSelector.value = this.currentGraph.name;
+        this.dyadView = null;
+        this.systematicView = null;
+        this.refreshInstanceSelector();
+        this.renderEdgeFilter();
+        this.renderAccessibleList();
+        this.renderLensPanel();
+        this.restoreViewport();
+        this.draw();
+    }
 
+    /**
+     * Render a polarity in the K2 lens
+     */
+    showDyad(dyadView: DyadView) {
+        const { GRAPHS } = require('./graphData');
+        this.currentGraph = GRAPHS[2];
+        this.graphSelector.value = this.currentGraph.name;
+        this.dyadView = dyadView;
+        this.systematicView = null;
+        this.renderer.selectedVertex = null;
+        this.refreshInstanceSelector();
+        this.renderEdgeFilter();
+        this.renderAccessibleList();
+        this.renderLensPanel();
+        this.restoreViewport();
         this.draw();
     }
 
-    loadGraph(order: number) {
+    /**
+     * Render a monad's conceptual nodes on the matching Kn geometry
+     */
+    showSystematicView(systematicView: SystematicView, graph?: GraphGeometry) {
         const { GRAPHS } = require('./graphData');
-        this.currentGraph = GRAPHS[order];
+        this.currentGraph = graph || GRAPHS[systematicView.systemOrder];
+        this.graphSelector.value = this.currentGraph.name;
+        this.systematicView = systematicView;
+        this.dyadView = null;
+        this.renderer.selectedVertex = null;
+        this.refreshInstanceSelector();
+        this.renderEdgeFilter();
+        this.renderAccessibleList();
+        this.renderLensPanel();
+        this.restoreViewport();
         this.draw();
     }
 
-    draw() {
-        if (!this.ctx || !this.currentGraph) return;
+    /**
+     * Switch the K2 lens to another polarity of the same monad
+     */
+    selectPolarity(polarityId: string) {
+        if (!this.dyadView) return;
 
-        // Clear canvas
-        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        const all = [this.dyadView.selectedPolarity, ...this.dyadView.alternativePolarities];
+        const chosen = all.find(p => p.id === polarityId);
+        if (!chosen) return;
 
-        // Get theme colors from CSS variables
-        const edgeColor = this.getThemeColor('--text-muted') || '#888888';
+        this.showDyad({
+            monad: this.dyadView.monad,
+            selectedPolarity: chosen,
+            alternativePolarities: all.filter(p => p !== chosen)
+        });
+    }
 
-        // Draw edges
-        this.ctx.strokeStyle = edgeColor;
-        this.ctx.lineWidth = 1.5;
+    /**
+     * Show a toggle per edge type present in the current graph
+     */
+    renderEdgeFilter() {
+        this.edgeFilter.empty();
 
-        for (const edge of this.currentGraph.edges) {
-            const from = this.currentGraph.vertices[edge.from];
-            const to = this.currentGraph.vertices[edge.to];
+        const types = Array.from(new Set(this.currentGraph.edges.map(edge => getEdgeType(edge))));
+        if (!this.currentGraph.edges.some(edge => edge.type)) {
+            this.edgeFilter.hide();
+            return;
+        }
+        this.edgeFilter.show();
+
+        this.edgeFilter.createSpan({ text: 'Edges:', cls: 'edge-filter-title' });
+        const hidden = this.getHiddenEdgeTypes();
+
+        for (const type of types) {
+            const toggle = this.edgeFilter.createEl('label', { cls: 'edge-filter-toggle' });
+            const checkbox = toggle.createEl('input', { type: 'checkbox' });
+            checkbox.checked = !hidden.includes(type);
+
+            const style = EDGE_TYPE_STYLES[type] || EDGE_TYPE_STYLES.default;
+            const swatch = toggle.createSpan({ cls: 'edge-filter-swatch' });
+            swatch.style.borderTopColor = this.renderer.getThemeColor(style.color) || style.fallback;
+            swatch.style.borderTopStyle = style.dash.length > 0 || !EDGE_TYPE_STYLES[type] ? 'dashed' : 'solid';
+
+            toggle.createSpan({ text: type });
 
-            const fromX = this.offsetX + from.x * this.scale;
-            const fromY = this.offsetY - from.y * this.scale; // Flip Y axis
-            const toX = this.offsetX + to.x * this.scale;
-            const toY = this.offsetY - to.y * this.scale;
+            checkbox.addEventListener('change', async () => {
+                const next = this.getHiddenEdgeTypes().filter(t => t !== type);
+                if (!checkbox.checked) next.push(type);
 
-            this.ctx.beginPath();
-            this.ctx.moveTo(fromX, fromY);
-            this.ctx.lineTo(toX, toY);
-            this.ctx.stroke();
+                this.getDocument().hiddenEdgeTypes = next;
+                await this.saveGraph();
+                this.draw();
+            });
         }
+    }
 
-        // Draw vertices
-        for (let i = 0; i < this.currentGraph.vertices.length; i++) {
-            const vertex = this.currentGraph.vertices[i];
-            this.drawVertex(vertex, i === this.hoveredVertex, i === this.selectedVertex);
+    getHiddenEdgeTypes(): string[] {
+        return this.getDocument().hiddenEdgeTypes;
+    }
+
+    emptyDocument(): GraphDocument {
+        return { graph: '', name: '', nodes: {}, edges: {}, hiddenEdgeTypes: [] };
+    }
+
+    /**
+     * Labels, links and edge visibility of the selected instance
+     */
+    getDocument(): GraphDocument {
+        return this.plugin.getDocument(this.plugin.getCurrentInstance(this.currentGraph.name));
+    }
+
+    getNodeSettings(): NodeLabelSettings {
+        return this.getDocument().nodes;
+    }
+
+    getEdgeSettings(): EdgeLabelSettings {
+        return this.getDocument().edges;
+    }
+
+    /**
+     * Persist the selected instance (to its graph file or plugin data)
+     */
+    async saveGraph() {
+        const instance = this.plugin.getCurrentInstance(this.currentGraph.name);
+        await this.plugin.saveDocument(instance);
+
+        // An instance kept in plugin data may just have moved into a graph file
+        if (!instance.file) {
+            this.refreshInstanceSelector();
         }
+        this.renderAccessibleList();
     }
 
-    getThemeColor(cssVar: string): string | null {
-        const style = getComputedStyle(document.body);
-        const color = style.getPropertyValue(cssVar).trim();
-        return color || null;
+    /**
+     * A graph file changed on disk (or was renamed/deleted)
+     */
+    onGraphDocumentChanged() {
+        if (!this.currentGraph) return;
+        this.refreshInstanceSelector();
+        this.renderEdgeFilter();
+        this.renderAccessibleList();
+        this.draw();
     }
 
-    drawVertex(vertex: Vertex, isHovered: boolean, isSelected: boolean) {
-        const x = this.offsetX + vertex.x * this.scale;
-        const y = this.offsetY - vertex.y * this.scale;
-        const radius = isHovered ? 12 : 10;
+    addIconButton(container: HTMLElement, icon: string, tooltip: string, onClick: (event: MouseEvent) => void) {
+        const button = container.createEl('button', {
+            cls: 'clickable-icon',
+            attr: { 'aria-label': tooltip }
+        });
+        setIcon(button, icon);
+        button.addEventListener('click', onClick);
+        return button;
+    }
 
-        // Get custom label if exists
-        const graphKey = `K${this.currentGraph.order}`;
-        const customLabel = this.plugin.settings.nodeLabelSettings[graphKey]?.[vertex.index];
-        const hasNote = customLabel && customLabel.noteFile;
+    /**
+     * List the instances of the current geometry
+     */
+    refreshInstanceSelector() {
+        this.instanceSelector.empty();
+
+        const current = this.plugin.getCurrentInstance(this.currentGraph.name);
+        for (const instance of this.plugin.getInstances(this.currentGraph.name)) {
+            const option = this.instanceSelector.createEl('option', {
+                value: instance.id,
+                text: instance.name
+            });
+            if (instance.id === current.id) {
+                option.selected = true;
+            }
+        }
+    }
 
-        // Draw node circle
-        this.ctx.beginPath();
-        this.ctx.arc(x, y, radius, 0, 2 * Math.PI);
+    onInstanceChanged() {
+        this.renderer.selectedVertex = null;
+        this.refreshInstanceSelector();
+        this.renderEdgeFilter();
+        this.renderAccessibleList();
+        this.restoreViewport();
+        this.draw();
+    }
 
-        // Better colors that work with both themes
-        if (hasNote) {
-            this.ctx.fillStyle = isSelected ? '#3b82f6' : '#60a5fa';
-        } else {
-            this.ctx.fillStyle = isSelected ? '#6b7280' : '#9ca3af';
+    /**
+     * Show the selected instance with its saved zoom and pan (lenses always start fitted)
+     */
+    restoreViewport() {
+        this.renderer.graph = this.getDisplayGraph();
+        this.renderer.setViewport(this.isLensActive()
+            ? undefined
+            : this.plugin.getViewport(this.plugin.getCurrentInstance(this.currentGraph.name)));
+    }
+
+    /**
+     * Remember the current zoom and pan with the instance (in plugin data, not its graph file)
+     */
+    async saveViewport() {
+        if (this.isLensActive() || !this.currentGraph) return;
+
+        const viewport = this.renderer.viewport;
+        const isDefault = Math.abs(viewport.zoom - DEFAULT_VIEWPORT.zoom) < 0.001 &&
+            Math.abs(viewport.x) < 0.001 && Math.abs(viewport.y) < 0.001;
+        const instance = this.plugin.getCurrentInstance(this.currentGraph.name);
+
+        if (isDefault && !this.plugin.getViewport(instance)) return;
+        await this.plugin.saveViewport(instance, isDefault ? undefined : { ...viewport });
+    }
+
+    fitToView() {
+        this.renderer.graph = this.getDisplayGraph();
+        this.renderer.setViewport(this.renderer.fitViewport());
+        this.draw();
+        this.saveViewport();
+    }
+
+    /**
+     * The current geometry as drawn: projected in 3D mode, otherwise with the
+     * instance's vertex positions applied
+     */
+    getDisplayGraph(): GraphGeometry {
+        return this.mode3d
+            ? projectGraph(this.currentGraph, this.yaw, this.pitch).graph
+            : applyLayout(this.currentGraph, this.getDocument().layout);
+    }
+
+    toggle3d() {
+        this.mode3d = !this.mode3d;
+        this.toggle3dButton.toggleClass('is-active', this.mode3d);
+        this.renderer.hoveredVertex = null;
+        this.renderer.hoveredEdge = null;
+        this.draw();
+    }
+
+    showLayoutMenu(event: MouseEvent) {
+        const menu = new Menu();
+
+        for (const preset of LAYOUT_PRESETS) {
+            menu.addItem((item) => {
+                item
+                    .setTitle(preset.name)
+                    .setIcon(preset.icon)
+                    .onClick(() => this.applyLayoutPreset(preset));
+            });
         }
 
-        this.ctx.fill();
+        menu.showAtMouseEvent(event);
+    }
 
-        // Add stroke for better visibility
-        if (isHovered || isSelected) {
-            this.ctx.strokeStyle = this.getThemeColor('--interactive-accent') || '#3b82f6';
-            this.ctx.lineWidth = 3;
-            this.ctx.stroke();
-        } else {
-            this.ctx.strokeStyle = this.getThemeColor('--background-modifier-border') || '#333333';
-            this.ctx.lineWidth = 1.5;
-            this.ctx.stroke();
+    /**
+     * Replace every vertex position of the instance with a preset (the canonical preset clears them)
+     */
+    async applyLayoutPreset(preset: LayoutPreset) {
+        if (this.isLensActive()) {
+            new Notice('Close the lens to change the layout');
+            return;
         }
 
-        // Always use bold font for measuring to ensure consistent wrapping
-        this.ctx.font = 'bold 12px sans-serif';
+        this.getDocument().layout = preset.build(this.currentGraph) || undefined;
+        await this.saveGraph();
+        this.draw();
+    }
+
+    isLensActive(): boolean {
+        return !!(this.dyadView || this.systematicView);
+    }
 
-        // Draw label positioned radially outside the graph
-        // Priority: custom label > note title (if note is linked) > default vertex label
-        let displayLabel = vertex.label;
-        if (customLabel?.noteFile) {
-            const noteTitle = this.getNoteTitleFromPath(customLabel.noteFile);
-            displayLabel = customLabel.label || noteTitle || vertex.label;
-        } else if (customLabel?.label) {
-            displayLabel = customLabel.label;
-        }
-        const lines = this.wrapText(displayLabel, 120);
-
-        // Set actual font based on hover state
-        this.ctx.font = isHovered ? 'bold 12px sans-serif' : '12px sans-serif';
-        const lineHeight = 18;
-
-        // Calculate direction from center to node (for radial positioning)
-        const dx = x - this.offsetX;
-        const dy = y - this.offsetY;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-
-        // Position text outside the graph (50px beyond the node) with custom offset
-        const baseOffsetX = customLabel?.labelOffsetX || 0;
-        const baseOffsetY = customLabel?.labelOffsetY || 0;
-        const labelDistance = distance + radius + 50;
-        const labelX = this.offsetX + (dx / distance) * labelDistance + baseOffsetX;
-        const labelY = this.offsetY + (dy / distance) * labelDistance + baseOffsetY;
+    isInstanceNameTaken(name: string): boolean {
+        return this.plugin.getInstances(this.currentGraph.name).some(instance => instance.name === name);
+    }
 
-        this.ctx.textAlign = 'center';
-        this.ctx.textBaseline = 'middle';
-
-        // Draw text with background for better visibility
-        const totalHeight = lines.length * lineHeight;
-        const startY = labelY - totalHeight / 2;
-        const isLabelHovered = this.hoveredLabel === vertex.index;
-
-        lines.forEach((line, index) => {
-            const textY = startY + (index * lineHeight) + lineHeight / 2;
-            const metrics = this.ctx.measureText(line);
-            const textWidth = metrics.width;
-            const padding = isLabelHovered ? 6 : 4;
-
-            // Draw background rectangle with hover effect
-            this.ctx.fillStyle = isLabelHovered ? 'rgba(230, 240, 255, 0.95)' : 'rgba(255, 255, 255, 0.9)';
-            this.ctx.fillRect(
-                labelX - textWidth / 2 - padding,
-                textY - lineHeight / 2 - 1,
-                textWidth + padding * 2,
-                lineHeight + 2
-            );
-
-            // Add border when hovered
-            if (isLabelHovered) {
-                this.ctx.strokeStyle = '#3b82f6';
-                this.ctx.lineWidth = 1;
-                this.ctx.strokeRect(
-                    labelX - textWidth / 2 - padding,
-                    textY - lineHeight / 2 - 1,
-                    textWidth + padding * 2,
-                    lineHeight + 2
-                );
+    promptCreateInstance(duplicate: boolean) {
+        const graphName = this.currentGraph.name;
+        const source = this.plugin.getCurrentInstance(graphName);
+        const count = this.plugin.getInstances(graphName).length;
+
+        new TextInputModal(
+            this.app,
+            duplicate ? `Duplicate "${source.name}"` : `New ${graphName} instance`,
+            "Enter instance name",
+            duplicate ? `${source.name} copy` : `${graphName} ${count + 1}`,
+            async (name) => {
+                name = name.trim();
+                if (!name) return;
+                if (this.isInstanceNameTaken(name)) {
+                    new Notice(`An instance named "${name}" already exists`);
+                    return;
+                }
+                await this.plugin.createInstance(graphName, name, duplicate ? source : undefined);
+                this.onInstanceChanged();
             }
+        ).open();
+    }
 
-            // Draw text in black
-            this.ctx.fillStyle = '#000000';
-            this.ctx.fillText(line, labelX, textY);
+    promptRenameInstance() {
+        const instance = this.plugin.getCurrentInstance(this.currentGraph.name);
+
+        new TextInputModal(
+            this.app,
+            `Rename "${instance.name}"`,
+            "Enter instance name",
+            instance.name,
+            async (name) => {
+                name = name.trim();
+                if (!name || name === instance.name) return;
+                if (this.isInstanceNameTaken(name)) {
+                    new Notice(`An instance named "${name}" already exists`);
+                    return;
+                }
+                await this.plugin.renameInstance(instance, name);
+                this.refreshInstanceSelector();
+            }
+        ).open();
+    }
+
+    showExportMenu(event: MouseEvent) {
+        const menu = new Menu();
+
+        menu.addItem((item) => {
+            item
+                .setTitle("Export as SVG")
+                .setIcon("file-code")
+                .onClick(() => this.exportGraph('svg'));
         });
+
+        for (const pixelRatio of PNG_SCALES) {
+            menu.addItem((item) => {
+                item
+                    .setTitle(`Export as PNG (${pixelRatio}×)`)
+                    .setIcon("image")
+                    .onClick(() => this.exportGraph('png', pixelRatio));
+            });
+        }
+
+        menu.addSeparator();
+        menu.addItem((item) => {
+            item
+                .setTitle("Export as Canvas")
+                .setIcon("layout-dashboard")
+                .onClick(() => this.exportGraph('canvas'));
+        });
+
+        menu.showAtMouseEvent(event);
+    }
+
+    /**
+     * Save the graph as shown (including an active lens) as a vault attachment,
+     * or as a canvas next to the graph file that is opened for editing
+     * @param pixelRatio PNG resolution multiplier
+     */
+    async exportGraph(format: 'svg' | 'png' | 'canvas', pixelRatio: number = 2) {
+        if (!this.currentGraph) return;
+
+        const instance = this.plugin.getCurrentInstance(this.currentGraph.name);
+        const getLensNode = (vertexIndex: number) => this.getLensNode(vertexIndex);
+        const exporter = new GraphExporter(this.app);
+
+        // In 3D mode the current projection is exported in place of the 2D layout
+        const graph = this.mode3d ? this.getDisplayGraph() : this.currentGraph;
+        const doc = this.mode3d ? { ...this.getDocument(), layout: undefined } : this.getDocument();
+
+        const lensMonad = this.getLensMonad();
+        const baseName = lensMonad
+            ? `${this.currentGraph.name} ${lensMonad.name}`
+            : instance.name.startsWith(this.currentGraph.name) ? instance.name : `${this.currentGraph.name} ${instance.name}`;
+
+        // Attachments follow the graph file, or the note being worked on
+        const sourcePath = instance.file || this.app.workspace.getActiveFile()?.path || '';
+
+        try {
+            if (format === 'canvas') {
+                const folder = instance.file
+                    ? instance.file.substring(0, instance.file.lastIndexOf('/'))
+                    : this.plugin.settings.graphFolder;
+                const data = exporter.buildCanvas(graph, doc, sourcePath, getLensNode);
+                const file = await exporter.saveCanvas(baseName, data, folder);
+                new Notice(`Exported graph to ${file.path}`);
+                await this.app.workspace.getLeaf('tab').openFile(file);
+                return;
+            }
+
+            const data = format === 'svg'
+                ? await exporter.buildSVG(graph, doc, getLensNode)
+                : await exporter.buildPNG(graph, doc, pixelRatio, getLensNode);
+            const file = await exporter.save(baseName, format, data, sourcePath);
+            new Notice(`Exported graph to ${file.path}`);
+        } catch (error) {
+            console.error('Graph export failed:', error);
+            new Notice(`Export failed: ${error.message}`);
+        }
     }
 
-    wrapText(text: string, maxWidth: number): string[] {
-        const words = text.split(' ');
-        const lines: string[] = [];
-        let currentLine = '';
+    openInstanceFile() {
+        const instance = this.plugin.getCurrentInstance(this.currentGraph.name);
+        const file = instance.file ? this.app.vault.getAbstractFileByPath(instance.file) : null;
 
-        for (const word of words) {
-            const testLine = currentLine ? `${currentLine} ${word}` : word;
-            const metrics = this.ctx.measureText(testLine);
+        if (file instanceof TFile) {
+            this.app.workspace.getLeaf('tab').openFile(file);
+        } else {
+            new Notice(this.plugin.settings.storeGraphsInFiles
+                ? 'This instance is kept in plugin data. Edit it, or run "Move graph labels from plugin data into vault files", to store it as a note.'
+                : 'This instance is kept in plugin data. Run "Move graph labels from plugin data into vault files" to store it as a note.');
+        }
+    }
+
+    confirmDeleteInstance() {
+        const instance = this.plugin.getCurrentInstance(this.currentGraph.name);
 
-            if (metrics.width > maxWidth && currentLine) {
-                lines.push(currentLine);
-                currentLine = word;
-            } else {
-                currentLine = testLine;
+        if (this.plugin.getInstances(this.currentGraph.name).length <= 1) {
+            new Notice('Cannot delete the only instance of a graph');
+            return;
+        }
+
+        new ConfirmModal(
+            this.app,
+            `Delete "${instance.name}"?`,
+            instance.file
+                ? `Its graph file (${instance.file}) will be moved to the trash. Linked notes are not affected.`
+                : 'Its node and edge labels and note links will be removed. Linked notes are not affected.',
+            'Delete',
+            async () => {
+                await this.plugin.deleteInstance(instance);
+                this.onInstanceChanged();
             }
+        ).open();
+    }
+
+    /**
+     * Conceptual node rendered at a vertex by the active lens, if any
+     */
+    getLensNode(vertexIndex: number): ConceptualNode | null {
+        if (this.dyadView) {
+            const { poleA, poleB } = this.dyadView.selectedPolarity;
+            return vertexIndex === 0 ? poleA : vertexIndex === 1 ? poleB : null;
+        }
+        if (this.systematicView) {
+            return this.systematicView.vertices[vertexIndex] || null;
         }
+        return null;
+    }
+
+    /**
+     * Monad the active lens was built from, if any
+     */
+    getLensMonad(): Monad | null {
+        return this.dyadView?.monad || this.systematicView?.monad || null;
+    }
 
-        if (currentLine) {
-            lines.push(currentLine);
+    renderLensPanel() {
+        this.lensPanel.empty();
+
+        const monad = this.getLensMonad();
+        if (!monad) {
+            this.lensPanel.hide();
+            return;
         }
 
-        return lines;
+        this.lensPanel.show();
+
+        // Header: monad, lens summary and (for dyads) the polarity switcher
+        const header = this.lensPanel.createDiv({ cls: 'lens-header' });
+        header.createEl('span', { text: `Monad: ${monad.name}`, cls: 'lens-monad' });
+
+        if (this.dyadView) {
+            const { selectedPolarity, alternativePolarities } = this.dyadView;
+
+            header.createEl('span', {
+                text: `${(selectedPolarity.confidence * 100).toFixed(0)}% · ${selectedPolarity.type === 'same-context' ? 'same context' : 'cross context'}`,
+                cls: 'lens-summary'
+            });
+
+            if (alternativePolarities.length > 0) {
+                const switcher = header.createEl('select', { cls: 'dropdown' });
+                const polarities = [selectedPolarity, ...alternativePolarities]
+                    .sort((a, b) => b.confidence - a.confidence);
+
+                for (const polarity of polarities) {
+                    const option = switcher.createEl('option', {
+                        value: polarity.id,
+                        text: `${polarity.poleA.label} / ${polarity.poleB.label} (${(polarity.confidence * 100).toFixed(0)}%)`
+                    });
+                    if (polarity === selectedPolarity) {
+                        option.selected = true;
+                    }
+                }
+
+                switcher.addEventListener('change', () => this.selectPolarity(switcher.value));
+            }
+        } else if (this.systematicView) {
+            header.createEl('span', {
+                text: `${this.currentGraph.name} lens · ${monad.noteCount} notes`,
+                cls: 'lens-summary'
+            });
+        }
+
+        const closeButton = header.createEl('button', { text: 'Close lens' });
+        closeButton.addEventListener('click', () => {
+            this.loadGraph(this.plugin.settings.currentGraph);
+        });
+
+        // One column per conceptual node with its terms and notes
+        const nodes = this.lensPanel.createDiv({ cls: 'lens-nodes' });
+
+        for (let i = 0; i < this.currentGraph.vertices.length; i++) {
+            const node = this.getLensNode(i);
+            if (!node) continue;
+
+            const column = nodes.createDiv({ cls: 'lens-node' });
+
+            const title = column.createEl('a', { text: node.label, cls: 'lens-node-title' });
+            title.setAttribute('title', 'Open as monad');
+            title.addEventListener('click', (e) => {
+                e.preventDefault();
+                this.plugin.openPoleAsMonad(node, monad.id);
+            });
+
+            column.createEl('p', {
+                text: `${node.notes.length} note${node.notes.length === 1 ? '' : 's'} · ${node.terms.join(', ')}`,
+                cls: 'lens-node-terms'
+            });
+
+            const noteItems = column.createEl('ul', { cls: 'note-items' });
+            for (const notePath of node.notes) {
+                const file = this.app.vault.getAbstractFileByPath(notePath);
+                if (!(file instanceof TFile)) continue;
+
+                const item = noteItems.createEl('li', { cls: 'note-item' });
+                const link = item.createEl('a', { text: file.basename, cls: 'note-link' });
+                link.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    this.app.workspace.openLinkText(file.path, '', false);
+                });
+            }
+        }
+    }
+
+    draw() {
+        if (!this.ctx || !this.currentGraph) return;
+
+        this.renderer.ctx = this.ctx;
+        if (this.mode3d) {
+            const projected = projectGraph(this.currentGraph, this.yaw, this.pitch);
+            this.renderer.graph = projected.graph;
+            this.renderer.depth = projected.depth;
+        } else {
+            this.renderer.graph = this.getDisplayGraph();
+            this.renderer.depth = null;
+        }
+        this.renderer.doc = this.getDocument();
+        this.renderer.draw();
+
+        // Show polarity confidence on the dyad edge
+        if (this.dyadView) {
+            this.drawDyadConfidence();
+        }
+    }
+
+    drawDyadConfidence() {
+        if (!this.dyadView) return;
+
+        const [from, to] = this.renderer.graph.vertices;
+        const midX = this.renderer.offsetX + ((from.x + to.x) / 2) * this.renderer.scale;
+        const midY = this.renderer.offsetY - ((from.y + to.y) / 2) * this.renderer.scale;
+
+        const text = `${(this.dyadView.selectedPolarity.confidence * 100).toFixed(0)}%`;
+
+        this.ctx.font = 'bold 12px sans-serif';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'bottom';
+        this.ctx.fillStyle = this.renderer.getThemeColor('--text-muted') || '#888888';
+        this.ctx.fillText(text, midX, midY - 6);
     }
 
     onMouseMove(event: MouseEvent) {
@@ -306,16 +807,52 @@ export class SystematicsGraphView extends ItemView {
         const mouseX = event.clientX - rect.left;
         const mouseY = event.clientY - rect.top;
 
+        if (this.panning) {
+            const dx = mouseX - this.panLastX;
+            const dy = mouseY - this.panLastY;
+            this.panLastX = mouseX;
+            this.panLastY = mouseY;
+
+            if (dx !== 0 || dy !== 0) {
+                this.panMoved = true;
+                if (this.rotating) {
+                    this.yaw += dx * 0.01;
+                    this.pitch = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, this.pitch + dy * 0.01));
+                } else {
+                    this.renderer.panBy(dx, dy);
+                }
+                this.canvas.style.cursor = 'grabbing';
+                this.draw();
+            }
+            return;
+        }
+
+        // Dragging a vertex moves it (after a few pixels, so clicks still open the menu)
+        if (this.draggingVertex !== null) {
+            if (!this.vertexMoved && Math.hypot(mouseX - this.dragStartX, mouseY - this.dragStartY) < 3) {
+                return;
+            }
+            this.vertexMoved = true;
+
+            const doc = this.getDocument();
+            doc.layout = doc.layout || {};
+            doc.layout[this.draggingVertex] = {
+                x: (mouseX - this.renderer.offsetX) / this.renderer.scale,
+                y: (this.renderer.offsetY - mouseY) / this.renderer.scale
+            };
+
+            this.canvas.style.cursor = 'grabbing';
+            this.draw();
+            return;
+        }
+
         // If dragging a label, update its position
         if (this.draggingLabel !== null) {
-            const graphKey = `K${this.currentGraph.order}`;
             const vertex = this.currentGraph.vertices[this.draggingLabel];
+            const nodes = this.getNodeSettings();
 
-            if (!this.plugin.settings.nodeLabelSettings[graphKey]) {
-                this.plugin.settings.nodeLabelSettings[graphKey] = {};
-            }
-            if (!this.plugin.settings.nodeLabelSettings[graphKey][this.draggingLabel]) {
-                this.plugin.settings.nodeLabelSettings[graphKey][this.draggingLabel] = {
+            if (!nodes[this.draggingLabel]) {
+                nodes[this.draggingLabel] = {
                     label: vertex.label,
                     noteFile: '',
                     labelOffsetX: 0,
@@ -325,52 +862,35 @@ export class SystematicsGraphView extends ItemView {
 
             const dx = mouseX - this.dragStartX;
             const dy = mouseY - this.dragStartY;
-            this.plugin.settings.nodeLabelSettings[graphKey][this.draggingLabel].labelOffsetX = this.dragOffsetX + dx;
-            this.plugin.settings.nodeLabelSettings[graphKey][this.draggingLabel].labelOffsetY = this.dragOffsetY + dy;
+            nodes[this.draggingLabel].labelOffsetX = this.dragOffsetX + dx;
+            nodes[this.draggingLabel].labelOffsetY = this.dragOffsetY + dy;
 
             this.canvas.style.cursor = 'grabbing';
             this.draw();
             return;
         }
 
-        // Check for label hover
-        let foundLabel = null;
-        for (let i = 0; i < this.currentGraph.vertices.length; i++) {
-            const labelPos = this.getLabelPosition(i);
-            if (!labelPos) continue;
-
-            const distance = Math.sqrt((mouseX - labelPos.x) ** 2 + (mouseY - labelPos.y) ** 2);
-            if (distance <= 30) { // Larger hit area for labels
-                foundLabel = i;
-                break;
-            }
-        }
-
-        // Check for vertex hover if no label is hovered
-        let foundVertex = null;
-        if (foundLabel === null) {
-            for (let i = 0; i < this.currentGraph.vertices.length; i++) {
-                const vertex = this.currentGraph.vertices[i];
-                const x = this.offsetX + vertex.x * this.scale;
-                const y = this.offsetY - vertex.y * this.scale;
-                const distance = Math.sqrt((mouseX - x) ** 2 + (mouseY - y) ** 2);
-
-                if (distance <= 12) {
-                    foundVertex = i;
-                    break;
-                }
-            }
-        }
+        // Labels take precedence over vertices, and vertices over edges
+        // (a lens shows its own labels, which cannot be dragged)
+        const foundLabel = this.isLensActive() ? null : this.renderer.findLabelAt(mouseX, mouseY);
+        const foundVertex = foundLabel === null ? this.renderer.findVertexAt(mouseX, mouseY) : null;
+        const foundEdge = foundLabel === null && foundVertex === null
+            ? this.renderer.findEdgeAt(mouseX, mouseY)
+            : null;
 
         // Update hover states
-        const needsRedraw = (foundVertex !== this.hoveredVertex) || (foundLabel !== this.hoveredLabel);
-        this.hoveredVertex = foundVertex;
-        this.hoveredLabel = foundLabel;
+        const needsRedraw = (foundVertex !== this.renderer.hoveredVertex) || (foundLabel !== this.renderer.hoveredLabel) ||
+            (foundEdge !== this.renderer.hoveredEdge);
+        this.renderer.hoveredVertex = foundVertex;
+        this.renderer.hoveredLabel = foundLabel;
+        this.renderer.hoveredEdge = foundEdge;
 
         // Update cursor
         if (foundLabel !== null) {
             this.canvas.style.cursor = 'grab';
-        } else if (foundVertex !== null) {
+        } else if (this.isLensActive()
+            ? foundVertex !== null && this.getLensNode(foundVertex) !== null
+            : foundVertex !== null || foundEdge !== null) {
             this.canvas.style.cursor = 'pointer';
         } else {
             this.canvas.style.cursor = 'default';
@@ -381,69 +901,303 @@ export class SystematicsGraphView extends ItemView {
         }
     }
 
-    getLabelPosition(vertexIndex: number): { x: number, y: number } | null {
-        const vertex = this.currentGraph.vertices[vertexIndex];
-        const x = this.offsetX + vertex.x * this.scale;
-        const y = this.offsetY - vertex.y * this.scale;
-        const radius = 10;
-
-        const graphKey = `K${this.currentGraph.order}`;
-        const customLabel = this.plugin.settings.nodeLabelSettings[graphKey]?.[vertexIndex];
-
-        const dx = x - this.offsetX;
-        const dy = y - this.offsetY;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-
-        const baseOffsetX = customLabel?.labelOffsetX || 0;
-        const baseOffsetY = customLabel?.labelOffsetY || 0;
-        const labelDistance = distance + radius + 50;
-        const labelX = this.offsetX + (dx / distance) * labelDistance + baseOffsetX;
-        const labelY = this.offsetY + (dy / distance) * labelDistance + baseOffsetY;
-
-        return { x: labelX, y: labelY };
-    }
-
     onMouseDown(event: MouseEvent) {
+        // A drag that ended outside the canvas never produced its click
+        this.suppressClick = false;
+
         const rect = this.canvas.getBoundingClientRect();
         const mouseX = event.clientX - rect.left;
         const mouseY = event.clientY - rect.top;
 
         // Check if clicking on a label
-        if (this.hoveredLabel !== null) {
-            this.draggingLabel = this.hoveredLabel;
+        if (this.renderer.hoveredLabel !== null) {
+            this.draggingLabel = this.renderer.hoveredLabel;
             this.dragStartX = mouseX;
             this.dragStartY = mouseY;
 
-            const graphKey = `K${this.currentGraph.order}`;
-            const currentSettings = this.plugin.settings.nodeLabelSettings[graphKey]?.[this.draggingLabel];
+            const currentSettings = this.getNodeSettings()[this.draggingLabel];
             this.dragOffsetX = currentSettings?.labelOffsetX || 0;
             this.dragOffsetY = currentSettings?.labelOffsetY || 0;
 
+            event.preventDefault();
+        } else if (event.button === 0 && this.renderer.hoveredVertex !== null && !this.isLensActive() && !this.mode3d) {
+            this.draggingVertex = this.renderer.hoveredVertex;
+            this.vertexMoved = false;
+            this.dragStartX = mouseX;
+            this.dragStartY = mouseY;
+            event.preventDefault();
+        } else if (event.button === 0 && this.renderer.hoveredVertex === null && this.renderer.hoveredEdge === null) {
+            // Dragging the background pans the graph (rotates it in 3D; Shift pans)
+            this.panning = true;
+            this.rotating = this.mode3d && !event.shiftKey;
+            this.panMoved = false;
+            this.panLastX = mouseX;
+            this.panLastY = mouseY;
             event.preventDefault();
         }
     }
 
     onMouseUp(event: MouseEvent) {
+        if (this.draggingVertex !== null) {
+            if (this.vertexMoved) {
+                this.suppressClick = true;
+                this.saveGraph();
+            }
+            this.draggingVertex = null;
+            this.vertexMoved = false;
+        }
+
+        if (this.panning) {
+            this.panning = false;
+            this.canvas.style.cursor = 'default';
+            if (this.panMoved) {
+                // The click that ends a pan should not open a menu
+                this.suppressClick = true;
+                if (!this.rotating) {
+                    this.saveViewportSoon();
+                }
+            }
+        }
+
         if (this.draggingLabel !== null) {
             // Save the new position
-            this.plugin.saveSettings();
+            this.saveGraph();
             this.draggingLabel = null;
             this.canvas.style.cursor = 'grab';
         }
     }
 
+    /**
+     * Zoom around the cursor
+     */
+    onWheel(event: WheelEvent) {
+        event.preventDefault();
+
+        const rect = this.canvas.getBoundingClientRect();
+        // Pixel-based deltas from trackpads are small; line-based ones from wheels are large
+        const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 20 : event.deltaY;
+        this.renderer.zoomAt(event.clientX - rect.left, event.clientY - rect.top, Math.exp(-delta * 0.002));
+        this.draw();
+        this.saveViewportSoon();
+    }
+
+    /**
+     * Keyboard focus starts at the first vertex, or at the last when tabbing back in
+     */
+    onCanvasFocus(event: FocusEvent) {
+        // Clicking focuses the canvas too; only keyboard focus shows the ring
+        if (!this.canvas.matches(':focus-visible')) return;
+
+        const count = this.currentGraph.vertices.length;
+        if (count === 0) return;
+
+        const from = event.relatedTarget instanceof Node ? event.relatedTarget : null;
+        const fromAfter = !!from && (this.canvas.compareDocumentPosition(from) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+        this.focusVertex(fromAfter ? count - 1 : 0);
+    }
+
+    onCanvasBlur() {
+        this.focusedVertex = null;
+        this.renderer.focusedVertex = null;
+        this.draw();
+    }
+
+    /**
+     * Tab moves through vertices in order (leaving the canvas after the last one),
+     * arrow keys move to the nearest vertex in that direction, Enter opens the node menu
+     */
+    onKeyDown(event: KeyboardEvent) {
+        const count = this.currentGraph.vertices.length;
+        if (count === 0) return;
+        const current = this.focusedVertex ?? 0;
+
+        switch (event.key) {
+            case 'Tab': {
+                // Without a focused vertex (focus came by click), Tab starts at the first and Shift-Tab at the last
+                const next = this.focusedVertex === null
+                    ? (event.shiftKey ? count - 1 : 0)
+                    : this.focusedVertex + (event.shiftKey ? -1 : 1);
+                if (next < 0 || next >= count) return; // Let focus leave the canvas
+                this.focusVertex(next);
+                break;
+            }
+            case 'ArrowRight':
+                this.focusVertex(this.findVertexInDirection(current, 1, 0));
+                break;
+            case 'ArrowLeft':
+                this.focusVertex(this.findVertexInDirection(current, -1, 0));
+                break;
+            case 'ArrowUp':
+                this.focusVertex(this.findVertexInDirection(current, 0, 1));
+                break;
+            case 'ArrowDown':
+                this.focusVertex(this.findVertexInDirection(current, 0, -1));
+                break;
+            case 'Home':
+                this.focusVertex(0);
+                break;
+            case 'End':
+                this.focusVertex(count - 1);
+                break;
+            case 'Enter':
+            case ' ':
+                this.activateVertex(current);
+                break;
+            case 'Escape':
+                this.focusedVertex = null;
+                this.renderer.focusedVertex = null;
+                this.draw();
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+    }
+
+    focusVertex(index: number) {
+        this.focusedVertex = index;
+        this.renderer.focusedVertex = index;
+        this.draw();
+
+        const item = this.accessibleList.children[index];
+        this.announcer.setText(item ? item.textContent || '' : '');
+    }
+
+    /**
+     * Nearest vertex in a screen direction, favouring vertices straight ahead
+     * @returns The same vertex when there is none that way
+     */
+    findVertexInDirection(from: number, dirX: number, dirY: number): number {
+        const vertices = this.renderer.graph.vertices;
+        const origin = vertices[from];
+        let best = from;
+        let bestScore = Infinity;
+
+        vertices.forEach((vertex, i) => {
+            if (i === from) return;
+            const dx = vertex.x - origin.x;
+            const dy = vertex.y - origin.y;
+            const distance = Math.hypot(dx, dy);
+            if (distance === 0) return;
+
+            const alignment = (dx * dirX + dy * dirY) / distance;
+            if (alignment <= 0.1) return;
+
+            const score = distance * (1 + 2 * (1 - alignment));
+            if (score < bestScore) {
+                bestScore = score;
+                best = i;
+            }
+        });
+
+        return best;
+    }
+
+    /**
+     * Keyboard equivalent of clicking a vertex
+     */
+    activateVertex(index: number) {
+        const lensNode = this.getLensNode(index);
+        if (lensNode) {
+            this.plugin.openPoleAsMonad(lensNode, this.getLensMonad()?.id);
+            return;
+        }
+        if (this.isLensActive()) return;
+
+        const vertex = this.renderer.graph.vertices[index];
+        const rect = this.canvas.getBoundingClientRect();
+        this.renderer.selectedVertex = index;
+        this.showNodeEditMenu(index, {
+            x: rect.left + this.renderer.offsetX + vertex.x * this.renderer.scale,
+            y: rect.top + this.renderer.offsetY - vertex.y * this.renderer.scale
+        });
+        this.draw();
+    }
+
+    showMenu(menu: Menu, at: MouseEvent | { x: number; y: number }) {
+        if (at instanceof MouseEvent) {
+            menu.showAtMouseEvent(at);
+        } else {
+            menu.showAtPosition(at);
+        }
+    }
+
+    /**
+     * Mirror the vertices, their linked notes and neighbours as a list for screen readers
+     */
+    renderAccessibleList() {
+        if (!this.accessibleList || !this.currentGraph) return;
+
+        const graph = this.currentGraph;
+        const doc = this.getDocument();
+        this.renderer.doc = doc;
+        this.accessibleList.empty();
+        this.canvas.setAttribute('aria-label',
+            `${graph.name} graph with ${graph.vertices.length} nodes. Use Tab or the arrow keys to move between nodes and Enter to edit one.`);
+
+        if (this.focusedVertex !== null && this.focusedVertex >= graph.vertices.length) {
+            this.focusedVertex = null;
+            this.renderer.focusedVertex = null;
+        }
+
+        for (const vertex of graph.vertices) {
+            const item = this.accessibleList.createEl('li');
+            const label = this.renderer.getVertexLabel(vertex);
+            item.appendText(`Node ${vertex.index + 1}: ${label}`);
+
+            const noteFile = doc.nodes[vertex.index]?.noteFile;
+            if (noteFile) {
+                item.appendText(', linked to ');
+                const link = item.createEl('a', {
+                    text: this.renderer.getNoteTitleFromPath(noteFile) || noteFile,
+                    attr: { href: '#', tabindex: '-1' }
+                });
+                link.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    this.app.workspace.openLinkText(noteFile, '', false);
+                });
+            }
+
+            const neighbours = graph.edges
+                .filter(edge => !doc.hiddenEdgeTypes.includes(getEdgeType(edge)))
+                .filter(edge => edge.from === vertex.index || edge.to === vertex.index)
+                .map(edge => graph.vertices[edge.from === vertex.index ? edge.to : edge.from])
+                .map(other => this.renderer.getVertexLabel(other));
+            if (neighbours.length > 0) {
+                item.appendText(`; connected to ${neighbours.join(', ')}`);
+            }
+        }
+    }
+
     onCanvasClick(event: MouseEvent) {
-        if (this.hoveredVertex !== null) {
-            this.selectedVertex = this.hoveredVertex;
-            this.showNodeEditMenu(this.hoveredVertex, event);
+        if (this.suppressClick) {
+            this.suppressClick = false;
+            return;
+        }
+
+        // Clicking a lens node recurses into it as a new monad
+        const lensNode = this.renderer.hoveredVertex !== null ? this.getLensNode(this.renderer.hoveredVertex) : null;
+        if (lensNode) {
+            this.plugin.openPoleAsMonad(lensNode, this.getLensMonad()?.id);
+            return;
+        }
+
+        // The instance under a lens is not edited through it
+        if (this.isLensActive()) return;
+
+        if (this.renderer.hoveredVertex !== null) {
+            this.renderer.selectedVertex = this.renderer.hoveredVertex;
+            this.showNodeEditMenu(this.renderer.hoveredVertex, event);
             this.draw();
+        } else if (this.renderer.hoveredEdge !== null) {
+            this.showEdgeEditMenu(this.renderer.hoveredEdge, event);
         }
     }
 
-    showNodeEditMenu(vertexIndex: number, event: MouseEvent) {
+    showNodeEditMenu(vertexIndex: number, event: MouseEvent | { x: number; y: number }) {
         const vertex = this.currentGraph.vertices[vertexIndex];
-        const graphKey = `K${this.currentGraph.order}`;
-        const currentSettings = this.plugin.settings.nodeLabelSettings[graphKey]?.[vertexIndex];
+        const currentSettings = this.getNodeSettings()[vertexIndex];
 
         const menu = new Menu();
 
@@ -459,17 +1213,14 @@ export class SystematicsGraphView extends ItemView {
                         currentSettings?.label || vertex.label,
                         async (newLabel) => {
                             if (newLabel && newLabel.trim()) {
-                                if (!this.plugin.settings.nodeLabelSettings[graphKey]) {
-                                    this.plugin.settings.nodeLabelSettings[graphKey] = {};
-                                }
-                                if (!this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex]) {
-                                    this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex] = {
+                                if (!this.getNodeSettings()[vertexIndex]) {
+                                    this.getNodeSettings()[vertexIndex] = {
                                         label: vertex.label,
                                         noteFile: ''
                                     };
                                 }
-                                this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex].label = newLabel.trim();
-                                await this.plugin.saveSettings();
+                                this.getNodeSettings()[vertexIndex].label = newLabel.trim();
+                                await this.saveGraph();
                                 this.draw();
                             }
                         }
@@ -486,24 +1237,21 @@ export class SystematicsGraphView extends ItemView {
                         this.app,
                         async (selectedFile) => {
                             if (selectedFile && selectedFile.trim()) {
-                                if (!this.plugin.settings.nodeLabelSettings[graphKey]) {
-                                    this.plugin.settings.nodeLabelSettings[graphKey] = {};
-                                }
-                                if (!this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex]) {
-                                    this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex] = {
+                                if (!this.getNodeSettings()[vertexIndex]) {
+                                    this.getNodeSettings()[vertexIndex] = {
                                         label: vertex.label,
                                         noteFile: ''
                                     };
                                 }
-                                this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex].noteFile = selectedFile.trim();
+                                this.getNodeSettings()[vertexIndex].noteFile = selectedFile.trim();
 
                                 // Automatically set the label to the note title
-                                const noteTitle = this.getNoteTitleFromPath(selectedFile.trim());
+                                const noteTitle = this.renderer.getNoteTitleFromPath(selectedFile.trim());
                                 if (noteTitle) {
-                                    this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex].label = noteTitle;
+                                    this.getNodeSettings()[vertexIndex].label = noteTitle;
                                 }
 
-                                await this.plugin.saveSettings();
+                                await this.saveGraph();
                                 this.draw();
                             }
                         }
@@ -525,6 +1273,69 @@ export class SystematicsGraphView extends ItemView {
             });
         }
 
+        menu.addItem((item) => {
+            item
+                .setTitle("Set colour")
+                .setIcon("palette")
+                .onClick(() => {
+                    new ColorModal(
+                        this.app,
+                        `Colour for ${this.renderer.getVertexLabel(vertex)}`,
+                        currentSettings?.color || '',
+                        (color) => {
+                            this.updateNodeAppearance(vertexIndex, { color: color || undefined });
+                        }
+                    ).open();
+                });
+        });
+
+        menu.addItem((item) => {
+            item
+                .setTitle(currentSettings?.icon ? `Icon: ${currentSettings.icon}` : "Set icon")
+                .setIcon(currentSettings?.icon || "smile")
+                .onClick(() => {
+                    new IconSuggestModal(this.app, (icon) => {
+                        this.updateNodeAppearance(vertexIndex, { icon: icon || undefined });
+                    }).open();
+                });
+        });
+
+        menu.addItem((item) => {
+            item
+                .setTitle("Set shape")
+                .setIcon("shapes")
+                .onClick(() => {
+                    const shapeMenu = new Menu();
+                    for (const { shape, name } of VERTEX_SHAPES) {
+                        shapeMenu.addItem((shapeItem) => {
+                            shapeItem
+                                .setTitle(name)
+                                .setChecked((currentSettings?.shape || 'circle') === shape)
+                                .onClick(() => {
+                                    this.updateNodeAppearance(vertexIndex, { shape: shape === 'circle' ? undefined : shape });
+                                });
+                        });
+                    }
+                    this.showMenu(shapeMenu, event);
+                });
+        });
+
+        if (this.getDocument().layout?.[vertexIndex]) {
+            menu.addItem((item) => {
+                item
+                    .setTitle("Reset node position")
+                    .setIcon("undo-2")
+                    .onClick(async () => {
+                        const layout = this.getDocument().layout;
+                        if (layout) {
+                            delete layout[vertexIndex];
+                            await this.saveGraph();
+                            this.draw();
+                        }
+                    });
+            });
+        }
+
         // Add reset position option if label has been moved
         if (currentSettings?.labelOffsetX !== undefined || currentSettings?.labelOffsetY !== undefined) {
             menu.addItem((item) => {
@@ -532,26 +1343,127 @@ export class SystematicsGraphView extends ItemView {
                     .setTitle("Reset label position")
                     .setIcon("reset")
                     .onClick(async () => {
-                        if (this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex]) {
-                            this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex].labelOffsetX = 0;
-                            this.plugin.settings.nodeLabelSettings[graphKey][vertexIndex].labelOffsetY = 0;
-                            await this.plugin.saveSettings();
+                        if (this.getNodeSettings()[vertexIndex]) {
+                            this.getNodeSettings()[vertexIndex].labelOffsetX = 0;
+                            this.getNodeSettings()[vertexIndex].labelOffsetY = 0;
+                            await this.saveGraph();
                             this.draw();
                         }
                     });
             });
         }
 
-        menu.showAtMouseEvent(event);
+        this.showMenu(menu, event);
     }
 
-    getNoteTitleFromPath(filePath: string): string | null {
-        const file = this.app.vault.getAbstractFileByPath(filePath);
-        if (file instanceof TFile) {
-            // Use the basename (filename without extension) as the title
-            return file.basename;
+    /**
+     * Set a vertex's colour, icon or shape (undefined restores the default)
+     */
+    async updateNodeAppearance(vertexIndex: number, appearance: Partial<Pick<NodeLabelSettings[number], 'color' | 'icon' | 'shape'>>) {
+        const nodes = this.getNodeSettings();
+        if (!nodes[vertexIndex]) {
+            nodes[vertexIndex] = { label: '', noteFile: '' };
         }
-        return null;
+
+        const node = nodes[vertexIndex];
+        Object.assign(node, appearance);
+        for (const key of ['color', 'icon', 'shape'] as const) {
+            if (key in appearance && !appearance[key]) {
+                delete node[key];
+            }
+        }
+
+        await this.saveGraph();
+        this.draw();
+    }
+
+    showEdgeEditMenu(edgeIndex: number, event: MouseEvent | { x: number; y: number }) {
+        const edge = this.currentGraph.edges[edgeIndex];
+        const edgeKey = getEdgeKey(edge);
+        const currentSettings = this.getEdgeSettings()[edgeKey];
+
+        const fromLabel = this.getNodeSettings()[edge.from]?.label || this.currentGraph.vertices[edge.from].label;
+        const toLabel = this.getNodeSettings()[edge.to]?.label || this.currentGraph.vertices[edge.to].label;
+
+        const ensureSettings = () => {
+            if (!this.getEdgeSettings()[edgeKey]) {
+                this.getEdgeSettings()[edgeKey] = {
+                    label: '',
+                    noteFile: ''
+                };
+            }
+            return this.getEdgeSettings()[edgeKey];
+        };
+
+        const menu = new Menu();
+
+        menu.addItem((item) => {
+            item
+                .setTitle("Set edge label")
+                .setIcon("tag")
+                .onClick(() => {
+                    new TextInputModal(
+                        this.app,
+                        `Set label for ${fromLabel} – ${toLabel}`,
+                        "Enter edge label",
+                        currentSettings?.label || edge.label || '',
+                        async (newLabel) => {
+                            if (newLabel && newLabel.trim()) {
+                                ensureSettings().label = newLabel.trim();
+                                await this.saveGraph();
+                                this.draw();
+                            }
+                        }
+                    ).open();
+                });
+        });
+
+        menu.addItem((item) => {
+            item
+                .setTitle("Link edge to note")
+                .setIcon("link")
+                .onClick(() => {
+                    new FileSuggestModal(
+                        this.app,
+                        async (selectedFile) => {
+                            if (selectedFile && selectedFile.trim()) {
+                                ensureSettings().noteFile = selectedFile.trim();
+                                await this.saveGraph();
+                                this.draw();
+                            }
+                        }
+                    ).open();
+                });
+        });
+
+        if (currentSettings?.noteFile) {
+            menu.addItem((item) => {
+                item
+                    .setTitle("Open linked note")
+                    .setIcon("file-text")
+                    .onClick(async () => {
+                        const file = this.app.vault.getAbstractFileByPath(currentSettings.noteFile);
+                        if (file instanceof TFile) {
+                            await this.app.workspace.getLeaf(false).openFile(file);
+                        }
+                    });
+            });
+        }
+
+        if (currentSettings) {
+            menu.addItem((item) => {
+                item
+                    .setTitle("Clear edge label and link")
+                    .setIcon("reset")
+                    .onClick(async () => {
+                        delete this.getEdgeSettings()[edgeKey];
+                        await this.saveGraph();
+                        this.draw();
+                    });
+            });
+        }
+
+        this.showMenu(menu, event);
     }
 
     async onClose() {
@@ -0,0 +1,195 @@
+/**
+ * Hashed Embeddings - In-process TF-IDF vectors for when no embedding server is available
+ * Words and adjacent word pairs are hashed into a fixed number of dimensions and weighted
+ * by how rare they are in the vault. Matches shared vocabulary rather than meaning, but
+ * needs no server and runs on mobile.
+ */
+
+import { App } from 'obsidian';
+import { EmbeddingProvider } from './embeddingProvider';
+import { extractWords, stripFrontmatter } from './termExtraction';
+
+const DIMENSIONS = 512;
+
+// Bumped when tokenization changes, so saved document frequencies are counted again
+const TOKENIZER_VERSION = 2;
+
+// Recount the document frequencies once the vault has grown or shrunk by this share of its notes
+const RECOUNT_DRIFT = 0.2;
+
+/**
+ * Document frequencies as saved between sessions
+ */
+interface StoredFrequencies {
+    version: number;            // When they were counted; part of the model name
+    tokenizer: number;          // TOKENIZER_VERSION they were counted with
+    documentCount: number;
+    documentFrequency: Record<string, number>;
+}
+
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+    private documentFrequency: Map<string, number> = new Map();
+    private documentCount: number = 0;
+    private version: number = 0;
+    private isHealthy: boolean = false;
+
+    /**
+     * @param storagePath File the document frequencies are kept in, so vectors embedded in
+     *                    earlier sessions stay comparable with new ones
+     */
+    constructor(private app: App, private storagePath: string) {}
+
+    /**
+     * Load the IDF weights, counting them again if the vault changed size a lot since
+     * A recount changes the model name, so notes embedded with the old weights are re-indexed
+     */
+    async initialize(): Promise<void> {
+        const stored = await this.load();
+        const noteCount = this.app.vault.getMarkdownFiles().length;
+
+        if (stored && Math.abs(noteCount - stored.documentCount) <= RECOUNT_DRIFT * stored.documentCount) {
+            this.documentFrequency = new Map(Object.entries(stored.documentFrequency));
+            this.documentCount = stored.documentCount;
+            this.version = stored.version;
+        } else {
+            await this.count();
+        }
+
+        this.isHealthy = true;
+    }
+
+    /**
+     * Count in how many notes each word appears, and save the counts
+     */
+    private async count() {
+        const documentFrequency: Map<string, number> = new Map();
+        const files = this.app.vault.getMarkdownFiles();
+
+        for (const file of files) {
+            const content = await this.app.vault.cachedRead(file);
+            for (const term of new Set(this.tokenize(content))) {
+                documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+            }
+        }
+
+        this.documentFrequency = documentFrequency;
+        this.documentCount = files.length;
+        this.version = Date.now();
+
+        const stored: StoredFrequencies = {
+            version: this.version,
+            tokenizer: TOKENIZER_VERSION,
+            documentCount: this.documentCount,
+            documentFrequency: Object.fromEntries(documentFrequency)
+        };
+        try {
+            await this.app.vault.adapter.write(this.storagePath, JSON.stringify(stored));
+        } catch (error) {
+            console.error('Could not save built-in embedding weights:', error);
+        }
+    }
+
+    private async load(): Promise<StoredFrequencies | null> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.storagePath))) return null;
+            const stored: Partial<StoredFrequencies> | null = JSON.parse(await this.app.vault.adapter.read(this.storagePath));
+            if (typeof stored?.version !== 'number' || stored.tokenizer !== TOKENIZER_VERSION ||
+                typeof stored.documentCount !== 'number' ||
+                !stored.documentFrequency || typeof stored.documentFrequency !== 'object') return null;
+            return stored as StoredFrequencies;
+        } catch (error) {
+            console.error('Could not read built-in embedding weights:', error);
+            return null;
+        }
+    }
+
+    async embed(text: string): Promise<number[]> {
+        if (!this.isHealthy) {
+            await this.initialize();
+        }
+        return this.vectorize(text);
+    }
+
+    async embedBatch(texts: string[], onProgress?: (done: number, total: number) => void): Promise<number[][]> {
+        if (!this.isHealthy) {
+            await this.initialize();
+        }
+
+        const embeddings = texts.map(text => this.vectorize(text));
+        onProgress?.(texts.length, texts.length);
+        return embeddings;
+    }
+
+    /**
+     * Sublinear TF-IDF of words and word pairs, hashed with a sign to spread collisions
+     */
+    private vectorize(text: string): number[] {
+        const terms = this.tokenize(text);
+
+        const counts: Map<string, number> = new Map();
+        terms.forEach((term, i) => {
+            counts.set(term, (counts.get(term) || 0) + 1);
+            if (i > 0) {
+                const pair = `${terms[i - 1]} ${term}`;
+                counts.set(pair, (counts.get(pair) || 0) + 1);
+            }
+        });
+
+        const vector = new Array(DIMENSIONS).fill(0);
+        for (const [feature, count] of counts) {
+            const hash = this.hash(feature);
+            const sign = hash & 0x80000000 ? -1 : 1;
+            vector[hash % DIMENSIONS] += sign * (1 + Math.log(count)) * this.weight(feature);
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+
+    /**
+     * IDF of a word; a word pair takes the mean of its words, discounted
+     */
+    private weight(feature: string): number {
+        const space = feature.indexOf(' ');
+        if (space >= 0) {
+            return 0.5 * (this.idf(feature.slice(0, space)) + this.idf(feature.slice(space + 1))) / 2;
+        }
+        return this.idf(feature);
+    }
+
+    private idf(term: string): number {
+        const frequency = this.documentFrequency.get(term) || 0;
+        return Math.log((1 + this.documentCount) / (1 + frequency)) + 1;
+    }
+
+    private tokenize(text: string): string[] {
+        return extractWords(stripFrontmatter(text), 3);
+    }
+
+    /**
+     * 32-bit FNV-1a
+     */
+    private hash(feature: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < feature.length; i++) {
+            hash ^= feature.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+
+    isReady(): boolean {
+        return this.isHealthy;
+    }
+
+    getModelInfo() {
+        return {
+            name: `hashed-tfidf-${DIMENSIONS}-${this.version.toString(36)}`,
+            dimensions: DIMENSIONS
+        };
+    }
+
+    describe(): string {
+        return 'the built-in keyword embeddings';
+    }
+}
@@ -1,4 +1,6 @@
-import { App, Modal, Setting, SuggestModal, TFile } from 'obsidian';
+import { App, Modal, Setting, SuggestModal, TFile, getIconIds, setIcon } from 'obsidian';
+import { GraphGeometry } from './types';
+import { parseGraphDefinitions } from './graphData';
 
 export class TextInputModal extends Modal {
     result: string;
@@ -90,3 +92,316 @@ export class FileSuggestModal extends SuggestModal<TFile> {
         this.onSubmit(file.path);
     }
 }
+
+
+export class GraphSuggestModal extends SuggestModal<GraphGeometry> {
+    onSubmit: (graph: GraphGeometry) => void;
+    graphs: GraphGeometry[];
+
+    constructor(
+        app: App,
+        graphs: GraphGeometry[],
+        onSubmit: (graph: GraphGeometry) => void
+    ) {
+        super(app);
+        this.graphs = graphs;
+        this.onSubmit = onSubmit;
+        this.setPlaceholder("Choose a system (Kn lens)");
+    }
+
+    getSuggestions(query: string): GraphGeometry[] {
+        const lowerQuery = query.toLowerCase();
+        return this.graphs.filter(graph =>
+            graph.name.toLowerCase().includes(lowerQuery)
+        );
+    }
+
+    renderSuggestion(graph: GraphGeometry, el: HTMLElement): void {
+        el.createEl("div", { text: graph.name });
+        el.createEl("small", { text: `${graph.order} vertices, ${graph.edges.length} edges` });
+    }
+
+    onChooseSuggestion(graph: GraphGeometry, evt: MouseEvent | KeyboardEvent): void {
+        this.onSubmit(graph);
+    }
+}
+
+/**
+ * Choose a Lucide icon by name; the empty choice removes the icon
+ */
+export class IconSuggestModal extends SuggestModal<string> {
+    onSubmit: (icon: string) => void;
+    icons: string[];
+
+    constructor(
+        app: App,
+        onSubmit: (icon: string) => void
+    ) {
+        super(app);
+        this.onSubmit = onSubmit;
+        this.icons = getIconIds().map(id => id.replace(/^lucide-/, ''));
+        this.setPlaceholder("Search Lucide icons (e.g. star, flame, users)");
+    }
+
+    getSuggestions(query: string): string[] {
+        const lowerQuery = query.toLowerCase().trim();
+        const matches = this.icons.filter(icon => icon.includes(lowerQuery)).slice(0, 100);
+        return lowerQuery ? matches : ['', ...matches];
+    }
+
+    renderSuggestion(icon: string, el: HTMLElement): void {
+        el.addClass('systematics-icon-suggestion');
+        const iconEl = el.createSpan();
+        if (icon) {
+            setIcon(iconEl, icon);
+        }
+        el.createSpan({ text: icon || 'No icon' });
+    }
+
+    onChooseSuggestion(icon: string, evt: MouseEvent | KeyboardEvent): void {
+        this.onSubmit(icon);
+    }
+}
+
+export class GraphDefinitionModal extends Modal {
+    onSubmit: (graph: GraphGeometry) => void;
+    title: string;
+    source: string;
+    errorEl: HTMLElement;
+
+    constructor(
+        app: App,
+        title: string,
+        source: string,
+        onSubmit: (graph: GraphGeometry) => void
+    ) {
+        super(app);
+        this.title = title;
+        this.source = source;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: this.title });
+        contentEl.createEl("p", {
+            text: 'JSON with a "name" and either "vertices" ([{ "label", "x", "y" }], coordinates in -1..1) or an "order" for a regular polygon. Add "edges" ([[0, 1], ...]) for a non-complete graph.',
+            cls: "setting-item-description"
+        });
+
+        const textArea = contentEl.createEl("textarea", { cls: "systematics-graph-definition" });
+        textArea.value = this.source;
+        textArea.rows = 16;
+
+        this.errorEl = contentEl.createEl("p", { cls: "systematics-graph-definition-error" });
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Save")
+                    .setCta()
+                    .onClick(() => {
+                        try {
+                            const graphs = parseGraphDefinitions(textArea.value);
+                            if (graphs.length !== 1) {
+                                throw new Error("Define exactly one graph here");
+                            }
+                            this.close();
+                            this.onSubmit(graphs[0]);
+                        } catch (error) {
+                            this.errorEl.setText(error.message);
+                        }
+                    })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Cancel")
+                    .onClick(() => {
+                        this.close();
+                    })
+            );
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+export class ConfirmModal extends Modal {
+    title: string;
+    message: string;
+    confirmText: string;
+    onConfirm: () => void;
+
+    constructor(
+        app: App,
+        title: string,
+        message: string,
+        confirmText: string,
+        onConfirm: () => void
+    ) {
+        super(app);
+        this.title = title;
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: this.title });
+        contentEl.createEl("p", { text: this.message });
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn
+                    .setButtonText(this.confirmText)
+                    .setWarning()
+                    .onClick(() => {
+                        this.close();
+                        this.onConfirm();
+                    })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Cancel")
+                    .onClick(() => {
+                        this.close();
+                    })
+            );
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+export class ScaleSuggestModal extends SuggestModal<number> {
+    onSubmit: (scale: number) => void;
+    scales: number[];
+    baseSize: number;
+
+    constructor(
+        app: App,
+        scales: number[],
+        baseSize: number,
+        onSubmit: (scale: number) => void
+    ) {
+        super(app);
+        this.scales = scales;
+        this.baseSize = baseSize;
+        this.onSubmit = onSubmit;
+        this.setPlaceholder("Choose a resolution");
+    }
+
+    getSuggestions(query: string): number[] {
+        return this.scales.filter(scale => `${scale}`.includes(query.trim()));
+    }
+
+    renderSuggestion(scale: number, el: HTMLElement): void {
+        const size = this.baseSize * scale;
+        el.createEl("div", { text: `${scale}× (${size} × ${size} px)` });
+    }
+
+    onChooseSuggestion(scale: number, evt: MouseEvent | KeyboardEvent): void {
+        this.onSubmit(scale);
+    }
+}
+
+// Obsidian's palette; stored as variable names so vertices follow the theme
+export const THEME_COLORS: { name: string; cssVar: string }[] = [
+    { name: 'Red', cssVar: '--color-red' },
+    { name: 'Orange', cssVar: '--color-orange' },
+    { name: 'Yellow', cssVar: '--color-yellow' },
+    { name: 'Green', cssVar: '--color-green' },
+    { name: 'Cyan', cssVar: '--color-cyan' },
+    { name: 'Blue', cssVar: '--color-blue' },
+    { name: 'Purple', cssVar: '--color-purple' },
+    { name: 'Pink', cssVar: '--color-pink' }
+];
+
+/**
+ * Pick a theme colour or a custom colour; submits null to go back to the default
+ */
+export class ColorModal extends Modal {
+    title: string;
+    current: string;
+    onSubmit: (color: string | null) => void;
+
+    constructor(
+        app: App,
+        title: string,
+        current: string,
+        onSubmit: (color: string | null) => void
+    ) {
+        super(app);
+        this.title = title;
+        this.current = current;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: this.title });
+
+        const swatches = contentEl.createDiv({ cls: 'systematics-color-swatches' });
+        for (const color of THEME_COLORS) {
+            const swatch = swatches.createEl('button', {
+                cls: 'systematics-color-swatch',
+                attr: { 'aria-label': color.name }
+            });
+            swatch.style.backgroundColor = `var(${color.cssVar})`;
+            swatch.toggleClass('is-active', this.current === color.cssVar);
+            swatch.addEventListener('click', () => {
+                this.close();
+                this.onSubmit(color.cssVar);
+            });
+        }
+
+        let custom = this.current.startsWith('#') ? this.current : '#888888';
+        new Setting(contentEl)
+            .setName("Custom colour")
+            .addColorPicker((picker) =>
+                picker
+                    .setValue(custom)
+                    .onChange((value) => {
+                        custom = value;
+                    })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Use")
+                    .onClick(() => {
+                        this.close();
+                        this.onSubmit(custom);
+                    })
+            );
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Default colour")
+                    .onClick(() => {
+                        this.close();
+                        this.onSubmit(null);
+                    })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Cancel")
+                    .onClick(() => {
+                        this.close();
+                    })
+            );
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * Note Chunker - Splits a note into sections for embedding
+ * Chunks follow the note's headings, then its paragraphs, so each stays short enough
+ * for an embedding model to read in full
+ */
+
+export interface NoteChunk {
+    text: string;
+    headingPath: string[];  // Headings the chunk sits under, outermost first
+    start: number;          // Character offset of the chunk in the note
+    end: number;            // Character offset just past the chunk
+    line: number;           // Line the chunk starts on (0-based)
+}
+
+interface Block {
+    start: number;
+    end: number;
+    line: number;
+    words: number;
+    headingPath: string[];
+}
+
+const MAX_CHUNK_WORDS = 300;
+
+/**
+ * Split a note into chunks of at most maxWords words
+ * Paragraphs under the same heading are packed together; a chunk never spans two sections,
+ * and a paragraph longer than maxWords is cut between words
+ */
+export function chunkNote(content: string, maxWords: number = MAX_CHUNK_WORDS): NoteChunk[] {
+    const frontmatter = content.match(/^---\n[\s\S]*?\n---\n?/);
+    const bodyStart = frontmatter ? frontmatter[0].length : 0;
+
+    const blocks = readBlocks(content, bodyStart);
+    const chunks: NoteChunk[] = [];
+
+    let current: Block | null = null;
+    const flush = () => {
+        if (current) {
+            chunks.push(toChunk(content, current));
+            current = null;
+        }
+    };
+
+    for (const block of blocks) {
+        if (block.words > maxWords) {
+            flush();
+            for (const piece of splitBlock(content, block, maxWords)) {
+                chunks.push(toChunk(content, piece));
+            }
+            continue;
+        }
+
+        if (current && current.headingPath === block.headingPath && current.words + block.words <= maxWords) {
+            current.end = block.end;
+            current.words += block.words;
+        } else {
+            flush();
+            current = { ...block };
+        }
+    }
+    flush();
+
+    // A note of nothing but headings is still worth finding
+    if (chunks.length === 0 && content.slice(bodyStart).trim() !== '') {
+        chunks.push(toChunk(content, {
+            start: bodyStart,
+            end: content.length,
+            line: content.slice(0, bodyStart).split('\n').length - 1,
+            words: 0,
+            headingPath: []
+        }));
+    }
+
+    return chunks;
+}
+
+/**
+ * Paragraphs of the note body with the headings they sit under
+ * Frontmatter and heading lines are left out; fenced code stays in one paragraph
+ */
+function readBlocks(content: string, bodyStart: number): Block[] {
+    const blocks: Block[] = [];
+    const headings: { level: number; text: string }[] = [];
+    let headingPath: string[] = [];
+    let block: Block | null = null;
+    let fence: string | null = null;
+
+    let offset = bodyStart;
+    let line = content.slice(0, bodyStart).split('\n').length - 1;
+
+    const endBlock = () => {
+        if (block) {
+            blocks.push(block);
+            block = null;
+        }
+    };
+
+    while (offset < content.length) {
+        const newline = content.indexOf('\n', offset);
+        const lineEnd = newline === -1 ? content.length : newline;
+        const text = content.slice(offset, lineEnd);
+
+        const fenceMatch = text.match(/^\s*(```|~~~)/);
+        const heading = fence ? null : text.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+
+        if (heading) {
+            endBlock();
+            const level = heading[1].length;
+            while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+                headings.pop();
+            }
+            headings.push({ level, text: heading[2] });
+            headingPath = headings.map(h => h.text);
+        } else if (text.trim() === '' && !fence) {
+            endBlock();
+        } else {
+            if (!block) {
+                block = { start: offset, end: lineEnd, line, words: 0, headingPath };
+            }
+            block.end = lineEnd;
+            block.words += countWords(text);
+        }
+
+        if (fenceMatch) {
+            fence = fence === null ? fenceMatch[1] : (fence === fenceMatch[1] ? null : fence);
+        }
+
+        offset = lineEnd + 1;
+        line++;
+    }
+    endBlock();
+
+    return blocks;
+}
+
+/**
+ * Cut an over-long paragraph into pieces of maxWords words
+ */
+function splitBlock(content: string, block: Block, maxWords: number): Block[] {
+    const pieces: Block[] = [];
+    const pattern = /\S+/g;
+    const text = content.slice(block.start, block.end);
+
+    let pieceStart = -1;
+    let words = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+        if (pieceStart < 0) pieceStart = match.index;
+        words++;
+
+        if (words === maxWords) {
+            pieces.push(piece(content, block, pieceStart, match.index + match[0].length, words));
+            pieceStart = -1;
+            words = 0;
+        }
+    }
+    if (pieceStart >= 0) {
+        pieces.push(piece(content, block, pieceStart, text.length, words));
+    }
+
+    return pieces;
+}
+
+function piece(content: string, block: Block, from: number, to: number, words: number): Block {
+    const start = block.start + from;
+    return {
+        start,
+        end: block.start + to,
+        line: block.line + (content.slice(block.start, start).match(/\n/g) || []).length,
+        words,
+        headingPath: block.headingPath
+    };
+}
+
+function toChunk(content: string, block: Block): NoteChunk {
+    return {
+        text: content.slice(block.start, block.end),
+        headingPath: block.headingPath,
+        start: block.start,
+        end: block.end,
+        line: block.line
+    };
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(word => word.length > 0).length;
+}
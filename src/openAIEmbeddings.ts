@@ -0,0 +1,161 @@
+/**
+ * OpenAI Embeddings - Generates embeddings via an OpenAI-compatible /v1/embeddings endpoint
+ * Works with Ollama, the llama.cpp server and LM Studio running locally, or a hosted API
+ */
+
+import { EmbeddingProvider, truncateWords } from './embeddingProvider';
+import { EmbeddingBatcher } from './embeddingBatcher';
+
+interface EmbeddingsRequest {
+    model: string;
+    input: string[];
+}
+
+interface EmbeddingsResponse {
+    data: { embedding: number[]; index: number }[];
+    model?: string;
+}
+
+export interface OpenAIEmbeddingConfig {
+    baseUrl: string;        // Up to and including /v1, e.g. http://localhost:11434/v1
+    model: string;          // Embedding model name, e.g. nomic-embed-text
+    apiKey: string;         // Sent as a bearer token when not empty
+    requestTimeout: number; // Milliseconds to wait for a request
+}
+
+export const DEFAULT_OPENAI_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'nomic-embed-text';
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    private config: OpenAIEmbeddingConfig;
+    private dimensions: number = 0;
+    private isHealthy: boolean = false;
+    private maxWords: number = 2000;    // Longer texts are cut to stay inside the model's context
+    private batcher: EmbeddingBatcher;
+
+    constructor(config: OpenAIEmbeddingConfig) {
+        this.config = config;
+        this.batcher = new EmbeddingBatcher(texts => this.request(texts), {
+            initialSize: 16,
+            maxSize: 128,
+            concurrency: 2,
+            targetTime: Math.min(2000, config.requestTimeout / 4)
+        });
+    }
+
+    /**
+     * Embed a probe text to check the endpoint and learn the model's dimensions
+     */
+    async initialize(): Promise<void> {
+        try {
+            const [probe] = await this.request(['systematics']);
+            this.dimensions = probe.length;
+            this.isHealthy = true;
+
+            console.log(`Embedding endpoint connected: ${this.config.model} (${this.dimensions}d)`);
+        } catch (error) {
+            this.isHealthy = false;
+            const errorMsg = error instanceof Error ? error.message : String(error);
+
+            if (errorMsg.includes('Failed to fetch') || errorMsg.includes('NetworkError')) {
+                throw new Error(
+                    `Cannot connect to embedding server at ${this.getBaseUrl()}. Please ensure:\n` +
+                    '1. Ollama, llama.cpp or LM Studio is running with its OpenAI-compatible API enabled\n' +
+                    `2. The model "${this.config.model}" is available\n` +
+                    '3. No firewall is blocking the connection'
+                );
+            }
+            if (error instanceof Error && error.name === 'AbortError') {
+                throw new Error(`Embedding server at ${this.getBaseUrl()} did not answer within ${this.config.requestTimeout / 1000}s`);
+            }
+
+            throw new Error(`Embedding server error: ${errorMsg}`);
+        }
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const [embedding] = await this.embedBatch([text]);
+        return embedding;
+    }
+
+    /**
+     * Generate embeddings for many texts, several per request
+     * @param onProgress Called with the number of texts embedded so far
+     */
+    async embedBatch(texts: string[], onProgress?: (done: number, total: number) => void): Promise<number[][]> {
+        if (!this.isHealthy) {
+            await this.initialize();
+        }
+
+        try {
+            return await this.batcher.embed(texts.map(text => truncateWords(text, this.maxWords)), onProgress);
+        } catch (error) {
+            console.error('Embedding generation failed:', error);
+            this.isHealthy = false; // Mark as unhealthy to retry initialization
+            throw error;
+        }
+    }
+
+    /**
+     * POST texts to /embeddings and return their vectors in input order
+     */
+    private async request(input: string[]): Promise<number[][]> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+
+        const body: EmbeddingsRequest = { model: this.config.model, input };
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.config.requestTimeout);
+
+        let response: Response;
+        try {
+            response = await fetch(`${this.getBaseUrl()}/embeddings`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`HTTP ${response.status}: ${errorText}`);
+        }
+
+        const data: EmbeddingsResponse = await response.json();
+
+        if (!Array.isArray(data.data) || data.data.length !== input.length ||
+            data.data.some(item => !Array.isArray(item.embedding))) {
+            throw new Error('Invalid embedding response from server');
+        }
+
+        return data.data
+            .slice()
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+    }
+
+    isReady(): boolean {
+        return this.isHealthy;
+    }
+
+    getModelInfo() {
+        return {
+            name: this.config.model,
+            dimensions: this.dimensions
+        };
+    }
+
+    describe(): string {
+        return `the OpenAI-compatible endpoint at ${this.getBaseUrl()}`;
+    }
+
+    getBaseUrl(): string {
+        return (this.config.baseUrl.trim() || DEFAULT_OPENAI_URL).replace(/\/+$/, '');
+    }
+}
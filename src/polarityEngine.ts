@@ -0,0 +1,363 @@
+/**
+ * Polarity Engine - Detects complementary oppositions (dyads) within a monad
+ * Combines term co-occurrence statistics with embedding-space opposition
+ */
+
+import { Monad, Polarity, ConceptualNode, DyadView } from './types';
+import { SemanticMonad } from './semanticTypes';
+import { cosineSimilarity } from './embeddingProvider';
+import { extractTerms, stripFrontmatter } from './termExtraction';
+
+/**
+ * Candidate term with its supporting contexts and notes
+ */
+interface TermStats {
+    term: string;
+    contexts: Set<number>;      // Indices of paragraphs containing the term
+    notes: Set<string>;         // Note paths containing the term
+    weight: number;             // Relevance-weighted support
+}
+
+export class PolarityEngine {
+    private maxCandidates: number = 30;
+    private maxPolarities: number = 8;
+    private maxPoleNotes: number = 20;
+
+    constructor() {}
+
+    /**
+     * Detect candidate polarities within a keyword monad
+     * @param monad The scoped context
+     * @param noteContent Note path → raw markdown content
+     * @param noteEmbeddings Optional note path → embedding, enables embedding-space opposition
+     * @param centerEmbedding Optional monad center (defaults to the mean note embedding)
+     * @returns Polarities ranked by confidence (highest first)
+     */
+    detectPolarities(
+        monad: Monad,
+        noteContent: Map<string, string>,
+        noteEmbeddings?: Map<string, number[]>,
+        centerEmbedding?: number[]
+    ): Polarity[] {
+        // Notes within the fuzzy boundary that we actually have content for
+        const notes = Array.from(monad.contentInScope.entries())
+            .filter(([path, score]) => score >= monad.relevanceThreshold && noteContent.has(path));
+
+        if (notes.length < 2) {
+            return [];
+        }
+
+        const queryWords = new Set(extractTerms(monad.query));
+        const candidates = this.collectCandidates(notes, noteContent, queryWords);
+
+        if (candidates.stats.length < 2) {
+            return [];
+        }
+
+        // Center of the monad in embedding space (query if known, else mean of notes)
+        let center: number[] | null = centerEmbedding || null;
+        if (!center && noteEmbeddings) {
+            center = this.centroid(notes.map(([path]) => noteEmbeddings.get(path)));
+        }
+
+        const totalContexts = candidates.contextCount;
+        const scored: Polarity[] = [];
+
+        for (let i = 0; i < candidates.stats.length; i++) {
+            for (let j = i + 1; j < candidates.stats.length; j++) {
+                const a = candidates.stats[i];
+                const b = candidates.stats[j];
+
+                const polarity = this.scorePair(a, b, totalContexts, notes.length, monad, noteEmbeddings, center);
+                if (polarity) {
+                    scored.push(polarity);
+                }
+            }
+        }
+
+        scored.sort((x, y) => y.confidence - x.confidence);
+
+        return this.diversify(scored);
+    }
+
+    /**
+     * Detect candidate polarities within a semantic monad
+     * Uses note embeddings from the search results and the query as monad center
+     */
+    detectFromSemanticMonad(
+        semanticMonad: SemanticMonad,
+        noteContent: Map<string, string>
+    ): Polarity[] {
+        const monad = PolarityEngine.toMonad(semanticMonad);
+
+        const noteEmbeddings = new Map<string, number[]>();
+        for (const note of semanticMonad.notes) {
+            if (note.embedding && note.embedding.length > 0) {
+                noteEmbeddings.set(note.path, note.embedding);
+            }
+        }
+
+        return this.detectPolarities(
+            monad,
+            noteContent,
+            noteEmbeddings,
+            semanticMonad.queryEmbedding
+        );
+    }
+
+    /**
+     * Build a dyad view from ranked polarities (top polarity selected)
+     */
+    static buildDyadView(monad: Monad, polarities: Polarity[], selectedId?: string): DyadView | null {
+        if (polarities.length === 0) return null;
+
+        const selected = polarities.find(p => p.id === selectedId) || polarities[0];
+
+        return {
+            monad,
+            selectedPolarity: selected,
+            alternativePolarities: polarities.filter(p => p !== selected)
+        };
+    }
+
+    /**
+     * Convert a semantic monad into the generic monad structure
+     */
+    static toMonad(semanticMonad: SemanticMonad): Monad {
+        const contentInScope = new Map<string, number>();
+        for (const note of semanticMonad.notes) {
+            contentInScope.set(note.path, Math.max(0, Math.min(1, note.score)));
+        }
+
+        return {
+            id: semanticMonad.id,
+            name: semanticMonad.query,
+            query: semanticMonad.query,
+            contentInScope,
+            relevanceThreshold: 0.0, // Search results are already ranked and cut off
+            createdAt: semanticMonad.createdAt,
+            noteCount: contentInScope.size
+        };
+    }
+
+    /**
+     * Split notes into paragraph contexts and gather candidate terms
+     */
+    private collectCandidates(
+        notes: [string, number][],
+        noteContent: Map<string, string>,
+        queryWords: Set<string>
+    ): { stats: TermStats[]; contextCount: number } {
+        const statsByTerm: Map<string, TermStats> = new Map();
+        let contextCount = 0;
+
+        for (const [path, relevance] of notes) {
+            const content = stripFrontmatter(noteContent.get(path) || '');
+            const paragraphs = content.split(/\n\s*\n/);
+
+            for (const paragraph of paragraphs) {
+                const terms = new Set(extractTerms(paragraph));
+                if (terms.size === 0) continue;
+
+                const contextIndex = contextCount++;
+
+                for (const term of terms) {
+                    if (queryWords.has(term)) continue;
+
+                    let stats = statsByTerm.get(term);
+                    if (!stats) {
+                        stats = { term, contexts: new Set(), notes: new Set(), weight: 0 };
+                        statsByTerm.set(term, stats);
+                    }
+
+                    stats.contexts.add(contextIndex);
+                    if (!stats.notes.has(path)) {
+                        stats.notes.add(path);
+                        stats.weight += relevance;
+                    }
+                }
+            }
+        }
+
+        // A pole needs support from more than one note (unless the monad is tiny),
+        // and terms present in nearly every note cannot discriminate
+        const minSupport = notes.length >= 5 ? 2 : 1;
+        const maxSupport = Math.max(minSupport, Math.floor(notes.length * 0.8));
+
+        const stats = Array.from(statsByTerm.values())
+            .filter(s => s.notes.size >= minSupport && s.notes.size <= maxSupport)
+            .sort((a, b) => b.weight - a.weight)
+            .slice(0, this.maxCandidates);
+
+        return { stats, contextCount };
+    }
+
+    /**
+     * Score a candidate pair of terms as a polarity
+     */
+    private scorePair(
+        a: TermStats,
+        b: TermStats,
+        totalContexts: number,
+        totalNotes: number,
+        monad: Monad,
+        noteEmbeddings?: Map<string, number[]>,
+        center?: number[] | null
+    ): Polarity | null {
+        const nA = a.contexts.size;
+        const nB = b.contexts.size;
+
+        let nAB = 0;
+        for (const ctx of a.contexts) {
+            if (b.contexts.has(ctx)) nAB++;
+        }
+
+        // Normalized pointwise mutual information (-1 never together, 1 always together)
+        const npmi = this.npmi(nA, nB, nAB, totalContexts);
+
+        // Poles of a dyad should carry comparable weight and jointly cover the monad
+        const balance = Math.min(a.notes.size, b.notes.size) / Math.max(a.notes.size, b.notes.size);
+        const union = new Set([...a.notes, ...b.notes]).size;
+        const coverage = union / totalNotes;
+
+        // Near-synonyms that share almost all notes are not a polarity
+        const sharedNotes = a.notes.size + b.notes.size - union;
+        if (sharedNotes / Math.min(a.notes.size, b.notes.size) > 0.9 && npmi > 0.8) {
+            return null;
+        }
+
+        let confidence: number;
+        const opposition = this.embeddingOpposition(a, b, noteEmbeddings, center);
+
+        if (opposition !== null) {
+            confidence = 0.3 * Math.abs(npmi) + 0.15 * balance + 0.2 * coverage + 0.35 * opposition;
+        } else {
+            confidence = 0.45 * Math.abs(npmi) + 0.25 * balance + 0.3 * coverage;
+        }
+
+        const type: Polarity['type'] = npmi >= 0 ? 'same-context' : 'cross-context';
+
+        return {
+            id: `${a.term}/${b.term}`,
+            poleA: this.buildPole(a, b, monad),
+            poleB: this.buildPole(b, a, monad),
+            confidence: Math.max(0, Math.min(1, confidence)),
+            type,
+            isManual: false
+        };
+    }
+
+    /**
+     * Normalized PMI over paragraph contexts
+     */
+    private npmi(nA: number, nB: number, nAB: number, total: number): number {
+        if (total === 0 || nA === 0 || nB === 0) return 0;
+        if (nAB === 0) return -1;
+
+        const pA = nA / total;
+        const pB = nB / total;
+        const pAB = nAB / total;
+
+        if (pAB >= 1) return 1;
+
+        const pmi = Math.log(pAB / (pA * pB));
+        return pmi / -Math.log(pAB);
+    }
+
+    /**
+     * How far apart two concept clusters sit relative to the monad center (0-1)
+     * 1 means the clusters point in opposite directions from the center
+     */
+    private embeddingOpposition(
+        a: TermStats,
+        b: TermStats,
+        noteEmbeddings?: Map<string, number[]>,
+        center?: number[] | null
+    ): number | null {
+        if (!noteEmbeddings || !center) return null;
+
+        // Prefer notes exclusive to each pole so shared notes do not pull centroids together
+        const exclusiveA = Array.from(a.notes).filter(n => !b.notes.has(n));
+        const exclusiveB = Array.from(b.notes).filter(n => !a.notes.has(n));
+
+        const centroidA = this.centroid((exclusiveA.length > 0 ? exclusiveA : Array.from(a.notes)).map(n => noteEmbeddings.get(n)));
+        const centroidB = this.centroid((exclusiveB.length > 0 ? exclusiveB : Array.from(b.notes)).map(n => noteEmbeddings.get(n)));
+
+        if (!centroidA || !centroidB || centroidA.length !== center.length || centroidB.length !== center.length) {
+            return null;
+        }
+
+        const offsetA = centroidA.map((v, i) => v - center[i]);
+        const offsetB = centroidB.map((v, i) => v - center[i]);
+
+        const similarity = cosineSimilarity(offsetA, offsetB);
+        return (1 - similarity) / 2;
+    }
+
+    /**
+     * Mean of the given vectors (ignores missing entries and vectors of another dimension)
+     */
+    private centroid(vectors: (number[] | undefined)[]): number[] | null {
+        const present = vectors.filter((v): v is number[] => !!v && v.length > 0);
+        if (present.length === 0) return null;
+
+        const dimensions = present[0].length;
+        const summed = present.filter(vector => vector.length === dimensions);
+        const sum = new Array(dimensions).fill(0);
+
+        for (const vector of summed) {
+            for (let i = 0; i < dimensions; i++) {
+                sum[i] += vector[i];
+            }
+        }
+
+        return sum.map(v => v / summed.length);
+    }
+
+    /**
+     * Build a conceptual node for one pole of a pair
+     */
+    private buildPole(pole: TermStats, opposite: TermStats, monad: Monad): ConceptualNode {
+        // Notes exclusive to this pole first, then shared ones, by relevance
+        const notes = Array.from(pole.notes).sort((x, y) => {
+            const exclusiveX = opposite.notes.has(x) ? 1 : 0;
+            const exclusiveY = opposite.notes.has(y) ? 1 : 0;
+            if (exclusiveX !== exclusiveY) return exclusiveX - exclusiveY;
+            return (monad.contentInScope.get(y) || 0) - (monad.contentInScope.get(x) || 0);
+        });
+
+        const relevance = notes.reduce((sum, n) => sum + (monad.contentInScope.get(n) || 0), 0) / notes.length;
+
+        return {
+            label: pole.term.charAt(0).toUpperCase() + pole.term.slice(1),
+            terms: [pole.term],
+            notes: notes.slice(0, this.maxPoleNotes),
+            relevance
+        };
+    }
+
+    /**
+     * Keep the ranking varied: a term may anchor at most two polarities
+     */
+    private diversify(polarities: Polarity[]): Polarity[] {
+        const usage: Map<string, number> = new Map();
+        const result: Polarity[] = [];
+
+        for (const polarity of polarities) {
+            const termA = polarity.poleA.terms[0];
+            const termB = polarity.poleB.terms[0];
+
+            if ((usage.get(termA) || 0) >= 2 || (usage.get(termB) || 0) >= 2) {
+                continue;
+            }
+
+            usage.set(termA, (usage.get(termA) || 0) + 1);
+            usage.set(termB, (usage.get(termB) || 0) + 1);
+            result.push(polarity);
+
+            if (result.length >= this.maxPolarities) break;
+        }
+
+        return result;
+    }
+}
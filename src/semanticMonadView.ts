@@ -4,18 +4,24 @@
 
 import { ItemView, WorkspaceLeaf, TFile, Notice } from 'obsidian';
 import SystematicsPlugin from '../main';
-import { EmbeddingService } from './embeddingService';
+import { EmbeddingProvider, cosineSimilarity } from './embeddingProvider';
 import { VectorIndex } from './vectorIndex';
 import { ProjectionEngine } from './projectionEngine';
-import { SemanticMonad, Point2D, ConceptNode, ScoredNote } from './semanticTypes';
+import { PolarityEngine } from './polarityEngine';
+import { ClusterEngine } from './clusterEngine';
+import { chunkNote, NoteChunk } from './noteChunker';
+import { SemanticMonad, Point2D, ConceptNode, ScoredNote, NoteSection } from './semanticTypes';
+import { Polarity, ConceptualNode, GraphGeometry } from './types';
 
 export const VIEW_TYPE_SEMANTIC_MONAD = 'systematics-semantic-monad';
 
 export class SemanticMonadView extends ItemView {
     plugin: SystematicsPlugin;
-    embeddingService: EmbeddingService;
+    embeddingProvider: EmbeddingProvider;
     vectorIndex: VectorIndex;
     projectionEngine: ProjectionEngine;
+    polarityEngine: PolarityEngine;
+    clusterEngine: ClusterEngine;
 
     // UI Elements
     canvas: HTMLCanvasElement;
@@ -23,21 +29,28 @@ export class SemanticMonadView extends ItemView {
     searchInput: HTMLInputElement;
     indexButton: HTMLButtonElement;
     statusDiv: HTMLElement;
+    fallbackBanner: HTMLElement;
     breadcrumbTrail: HTMLElement;
     notesList: HTMLElement;
     conceptsList: HTMLElement;
+    polaritiesList: HTMLElement;
 
     // State
     currentMonad: SemanticMonad | null = null;
+    currentPolarities: Polarity[] = [];
+    monadStack: SemanticMonad[] = [];   // Path from the root monad to the current one
     isIndexing: boolean = false;
+    indexGroupSize: number = 256;   // Notes read, embedded and stored together while indexing the vault
     conceptPositions: Map<string, Point2D> = new Map();
 
     constructor(leaf: WorkspaceLeaf, plugin: SystematicsPlugin) {
         super(leaf);
         this.plugin = plugin;
-        this.embeddingService = new EmbeddingService();
+        this.embeddingProvider = plugin.createEmbeddingProvider();
         this.vectorIndex = new VectorIndex();
         this.projectionEngine = new ProjectionEngine();
+        this.polarityEngine = new PolarityEngine();
+        this.clusterEngine = new ClusterEngine();
     }
 
     getViewType(): string {
@@ -71,6 +84,10 @@ export class SemanticMonadView extends ItemView {
         try {
             await this.vectorIndex.initialize();
             // Embedding service initializes lazily on first use
+
+            if (this.vectorIndex.droppedOldIndex) {
+                new Notice('Semantic search now embeds notes by section. Re-index the vault to search it again.', 15000);
+            }
         } catch (error) {
             new Notice('Failed to initialize semantic search: ' + error.message);
             console.error(error);
@@ -105,6 +122,10 @@ export class SemanticMonadView extends ItemView {
         debugButton.style.backgroundColor = 'var(--background-modifier-border)';
         debugButton.addEventListener('click', () => this.debugIndex());
 
+        // Offered when the embedding server cannot be reached
+        this.fallbackBanner = container.createDiv('keyword-fallback');
+        this.fallbackBanner.hide();
+
         // Breadcrumb trail
         this.breadcrumbTrail = container.createDiv('breadcrumb-trail');
         this.updateBreadcrumb();
@@ -151,6 +172,11 @@ export class SemanticMonadView extends ItemView {
         conceptsPanel.createEl('h3', { text: 'Semantic Concepts' });
         this.conceptsList = conceptsPanel.createDiv('concepts-list');
 
+        // Polarities panel
+        const polaritiesPanel = leftColumn.createDiv('polarities-panel');
+        polaritiesPanel.createEl('h3', { text: 'Discovered Polarities' });
+        this.polaritiesList = polaritiesPanel.createDiv('polarities-list');
+
         // Right column: Notes list
         const rightColumn = contentLayout.createDiv('right-column');
 
@@ -161,6 +187,9 @@ export class SemanticMonadView extends ItemView {
         // Initialize canvas
         this.resizeCanvas();
         window.addEventListener('resize', () => this.resizeCanvas());
+
+        // Canvas colours come from the theme
+        this.registerEvent(this.app.workspace.on('css-change', () => this.draw()));
     }
 
     resizeCanvas() {
@@ -183,23 +212,24 @@ export class SemanticMonadView extends ItemView {
      */
     async debugIndex() {
         const records = await this.vectorIndex.getAllRecords();
+        const paths = Array.from(new Set(records.map(r => r.path)));
 
         console.log('=== INDEX CONTENTS ===');
-        console.log(`Total indexed: ${records.length} notes`);
+        console.log(`Total indexed: ${paths.length} notes in ${records.length} sections`);
 
         // Group by folder
         const byFolder: Map<string, number> = new Map();
         const samplePaths: string[] = [];
 
-        for (const record of records) {
+        for (const path of paths) {
             // Extract folder path
-            const parts = record.id.split('/');
+            const parts = path.split('/');
             const folder = parts.length > 1 ? parts.slice(0, -1).join('/') : 'root';
             byFolder.set(folder, (byFolder.get(folder) || 0) + 1);
 
             // Collect sample paths
             if (samplePaths.length < 20) {
-                samplePaths.push(record.id);
+                samplePaths.push(path);
             }
         }
 
@@ -218,20 +248,38 @@ export class SemanticMonadView extends ItemView {
         }
 
         // Search for computer science related paths
-        const csRelated = records.filter(r =>
-            r.id.toLowerCase().includes('computer') ||
-            r.id.toLowerCase().includes('cs') ||
-            r.id.toLowerCase().includes('programming') ||
-            r.id.toLowerCase().includes('algorithm') ||
-            r.id.toLowerCase().includes('software')
+        const csRelated = paths.filter(p =>
+            p.toLowerCase().includes('computer') ||
+            p.toLowerCase().includes('cs') ||
+            p.toLowerCase().includes('programming') ||
+            p.toLowerCase().includes('algorithm') ||
+            p.toLowerCase().includes('software')
         );
 
         console.log(`\n=== Computer Science Related Paths (${csRelated.length}) ===`);
-        for (const record of csRelated.slice(0, 20)) {
-            console.log(record.id);
+        for (const path of csRelated.slice(0, 20)) {
+            console.log(path);
         }
 
-        new Notice(`Index contains ${records.length} notes. Check console for details.`);
+        new Notice(`Index contains ${paths.length} notes. Check console for details.`);
+    }
+
+    /**
+     * Connect the embedding provider if it is not yet, and index with its model
+     * @param force Check the connection again even if it was made before
+     */
+    async connectProvider(force: boolean = false) {
+        if (force || !this.embeddingProvider.isReady()) {
+            await this.embeddingProvider.initialize();
+        }
+        this.vectorIndex.setModel(this.embeddingProvider.getModelInfo());
+    }
+
+    /**
+     * Switch to another embedding provider (after the settings change)
+     */
+    setEmbeddingProvider(provider: EmbeddingProvider) {
+        this.embeddingProvider = provider;
     }
 
     /**
@@ -250,71 +298,93 @@ export class SemanticMonadView extends ItemView {
 
         let indexed = 0;
         let failed = 0;
+        let unchanged = 0;
 
         try {
             // Initialize embedding service first (connects to local server)
             this.statusDiv.setText('Connecting to embedding server...');
-            new Notice('Connecting to local embedding server (localhost:8765)...', 4000);
+            new Notice(`Connecting to ${this.embeddingProvider.describe()}...`, 4000);
 
             try {
-                await this.embeddingService.initialize();
-                const modelInfo = this.embeddingService.getModelInfo();
+                await this.connectProvider(true);
+                const modelInfo = this.embeddingProvider.getModelInfo();
                 this.statusDiv.setText(`Connected to ${modelInfo.name}! Starting to index...`);
                 new Notice(`Embedding server ready! Using ${modelInfo.name}`, 3000);
             } catch (error) {
                 const msg = `❌ Failed to connect to embedding server: ${error.message}`;
                 this.statusDiv.setText(msg);
                 this.statusDiv.style.color = 'var(--text-error)';
-                new Notice('❌ Cannot connect to embedding server. Please ensure the Rust server is running on localhost:8765', 15000);
+                new Notice(`❌ Cannot connect to ${this.embeddingProvider.describe()}. Please ensure it is running.`, 15000);
                 console.error('Embedding service initialization failed:', error);
+                this.offerKeywordFallback();
                 throw new Error('Embedding server unavailable: ' + error.message);
             }
 
             const files = this.app.vault.getMarkdownFiles();
-            new Notice(`Found ${files.length} notes to index`);
-            this.statusDiv.setText(`Indexing 0/${files.length} notes...`);
-
-            const batchSize = 5;
-
-            for (let i = 0; i < files.length; i += batchSize) {
-                const batch = files.slice(i, i + batchSize);
-
-                for (const file of batch) {
-                    try {
-                        await this.indexNote(file);
-                        indexed++;
-
-                        // Update status more frequently
-                        if (indexed % 5 === 0) {
-                            this.statusDiv.setText(`Indexing ${indexed}/${files.length} notes...`);
-                        }
-
-                        if (indexed % 20 === 0) {
-                            new Notice(`Progress: ${indexed}/${files.length} notes`, 2000);
-                            console.log(`Progress: ${indexed}/${files.length} notes indexed`);
-                        }
-                    } catch (error) {
-                        failed++;
-                        console.error(`Failed to index ${file.path}:`, error);
-
-                        // Show error for first few failures
-                        if (failed <= 3) {
-                            new Notice(`Error indexing ${file.basename}: ${error.message}`, 8000);
-                            this.statusDiv.setText(`Error on ${file.basename}: ${error.message}`);
-                        }
 
-                        // If too many failures early on, abort
-                        if (failed > 5 && indexed < 10) {
-                            throw new Error(`Too many indexing failures. Last error: ${error.message}`);
+            // Only notes changed since they were embedded, or embedded by another model
+            const records = new Map((await this.vectorIndex.getAllRecords()).map(r => [r.path, r]));
+            const stale = files.filter(file => this.vectorIndex.isStale(records.get(file.path) || null, file.stat.mtime));
+            unchanged = files.length - stale.length;
+
+            new Notice(`Found ${files.length} notes, ${stale.length} to index`);
+            this.statusDiv.setText(`Indexing 0/${stale.length} notes...`);
+
+            for (let i = 0; i < stale.length; i += this.indexGroupSize) {
+                const group = await this.readNotes(stale.slice(i, i + this.indexGroupSize));
+
+                try {
+                    // Every chunk of the group in one batch, handed back to its note in order
+                    const texts = group.flatMap(note => note.chunks.map(chunk => this.chunkEmbeddingText(note.file, chunk)));
+                    const embeddings = await this.embeddingProvider.embedBatch(
+                        texts,
+                        done => this.statusDiv.setText(`Indexing ${i}/${stale.length} notes (${done}/${texts.length} sections)...`)
+                    );
+
+                    let offset = 0;
+                    await this.vectorIndex.addNotes(group.map(note => {
+                        const noteEmbeddings = embeddings.slice(offset, offset + note.chunks.length);
+                        offset += note.chunks.length;
+                        return this.toIndexEntry(note.file, note.chunks, noteEmbeddings);
+                    }));
+                    indexed += group.length;
+                } catch (error) {
+                    console.error('Batch indexing failed, retrying notes one at a time:', error);
+
+                    // Give up if the server went away rather than failing every note
+                    await this.connectProvider(true);
+
+                    for (const note of group) {
+                        try {
+                            await this.embedNote(note.file, note.chunks);
+                            indexed++;
+                        } catch (noteError) {
+                            failed++;
+                            console.error(`Failed to index ${note.file.path}:`, noteError);
+
+                            // Show error for first few failures
+                            if (failed <= 3) {
+                                new Notice(`Error indexing ${note.file.basename}: ${noteError.message}`, 8000);
+                                this.statusDiv.setText(`Error on ${note.file.basename}: ${noteError.message}`);
+                            }
+
+                            // If too many failures early on, abort
+                            if (failed > 5 && indexed < 10) {
+                                throw new Error(`Too many indexing failures. Last error: ${noteError.message}`);
+                            }
                         }
                     }
                 }
+
+                if (i + this.indexGroupSize < stale.length) {
+                    new Notice(`Progress: ${i + this.indexGroupSize}/${stale.length} notes`, 2000);
+                }
             }
 
-            if (indexed > 0) {
-                const msg = `✅ Indexed ${indexed} notes!` + (failed > 0 ? ` (${failed} failed)` : '');
+            if (indexed > 0 || failed === 0) {
+                const msg = `✅ Indexed ${indexed} notes!` + (unchanged > 0 ? ` (${unchanged} unchanged)` : '') + (failed > 0 ? ` (${failed} failed)` : '');
                 new Notice(msg);
-                this.statusDiv.setText(`✅ Index: ${indexed} notes` + (failed > 0 ? ` (${failed} errors)` : ''));
+                this.statusDiv.setText(`✅ Index: ${indexed + unchanged} notes` + (failed > 0 ? ` (${failed} errors)` : ''));
                 this.statusDiv.style.color = 'var(--text-success)';
             } else {
                 const msg = '❌ No notes were indexed - all failed. See errors above.';
@@ -336,7 +406,7 @@ export class SemanticMonadView extends ItemView {
             this.indexButton.disabled = false;
             this.indexButton.setText('Re-index Vault');
 
-            console.log(`Indexing complete: ${indexed} successful, ${failed} failed`);
+            console.log(`Indexing complete: ${indexed} successful, ${unchanged} unchanged, ${failed} failed`);
         }
     }
 
@@ -344,45 +414,74 @@ export class SemanticMonadView extends ItemView {
      * Index a single note
      */
     async indexNote(file: TFile) {
-        const content = await this.app.vault.cachedRead(file);
-
-        // Skip if too short
-        if (content.length < 50) return;
+        // Vectors are only comparable within one model
+        await this.connectProvider();
 
         // Check if needs reindexing
         const needsReindex = await this.vectorIndex.needsReindex(file.path, file.stat.mtime);
         if (!needsReindex) return;
 
-        // Generate embedding
-        const embedding = await this.embeddingService.embed(content);
+        await this.embedNote(file, this.chunkContent(await this.app.vault.cachedRead(file)));
+    }
 
-        // Debug: Log first indexed note to verify embeddings are diverse
-        const stats = await this.vectorIndex.getStats();
-        if (stats.indexedNotes < 3) {
-            console.log(`Indexed note #${stats.indexedNotes + 1}: ${file.basename}`, {
-                embeddingLength: embedding.length,
-                embeddingPreview: embedding.slice(0, 5),
-                embeddingSum: embedding.reduce((a, b) => a + b, 0),
-                contentPreview: content.slice(0, 100)
-            });
+    /**
+     * Embed a note's chunks and store them
+     */
+    async embedNote(file: TFile, chunks: NoteChunk[]) {
+        const embeddings = await this.embeddingProvider.embedBatch(chunks.map(chunk => this.chunkEmbeddingText(file, chunk)));
+        await this.vectorIndex.addNotes([this.toIndexEntry(file, chunks, embeddings)]);
+    }
+
+    /**
+     * Read and chunk notes
+     */
+    async readNotes(files: TFile[]): Promise<{ file: TFile; chunks: NoteChunk[] }[]> {
+        const notes: { file: TFile; chunks: NoteChunk[] }[] = [];
+        for (const file of files) {
+            notes.push({ file, chunks: this.chunkContent(await this.app.vault.cachedRead(file)) });
         }
+        return notes;
+    }
 
-        // Extract metadata
-        const metadata = {
-            title: file.basename,
+    /**
+     * Sections of a note to embed; none for a note too short to be worth searching
+     * (it is still indexed, so it is not picked up again until it changes)
+     */
+    chunkContent(content: string): NoteChunk[] {
+        return content.length < 50 ? [] : chunkNote(content);
+    }
+
+    /**
+     * Text embedded for a chunk: the note title and headings give the passage its context
+     */
+    chunkEmbeddingText(file: TFile, chunk: NoteChunk): string {
+        return `${[file.basename, ...chunk.headingPath].join(' > ')}\n\n${chunk.text}`;
+    }
+
+    /**
+     * The index entry for a note's chunk embeddings
+     */
+    toIndexEntry(file: TFile, chunks: NoteChunk[], embeddings: number[][]) {
+        return {
             path: file.path,
-            mtime: file.stat.mtime,
-            tags: [], // Could extract from frontmatter
-            links: []  // Could extract from content
+            chunks: chunks.map((chunk, i) => ({
+                section: {
+                    headingPath: chunk.headingPath,
+                    start: chunk.start,
+                    end: chunk.end,
+                    line: chunk.line
+                },
+                text: chunk.text.slice(0, 500), // Store snippet
+                embedding: embeddings[i]
+            })),
+            metadata: {
+                title: file.basename,
+                path: file.path,
+                mtime: file.stat.mtime,
+                tags: [], // Could extract from frontmatter
+                links: []  // Could extract from content
+            }
         };
-
-        // Store in index
-        await this.vectorIndex.addNote(
-            file.path,
-            embedding,
-            content.slice(0, 500), // Store snippet
-            metadata
-        );
     }
 
     /**
@@ -398,79 +497,299 @@ export class SemanticMonadView extends ItemView {
         try {
             new Notice('Searching semantic space...');
 
-            // Normalize query (lowercase for matching)
-            const queryNormalized = query.toLowerCase();
+            const monad = await this.buildMonad(query);
+            if (!monad) {
+                new Notice('No indexed notes found. Please index your vault first.');
+                return;
+            }
+
+            // A typed query starts a new hierarchy
+            this.monadStack = [monad];
+            await this.showMonad(monad);
+            this.fallbackBanner.hide();
+
+            new Notice(`Found ${monad.notes.length} semantically related notes`);
+
+        } catch (error) {
+            this.reportSearchError(error);
+        }
+    }
+
+    /**
+     * Drill down into a concept: nest a child monad scoped to the current monad's notes
+     */
+    async drillDown(term: string) {
+        const parent = this.currentMonad;
+        if (!parent) return;
+
+        // Reuse a child we already explored instead of searching again
+        const existing = parent.children?.find(child => child.query === term);
+        if (existing) {
+            this.monadStack.push(existing);
+            this.searchInput.value = term;
+            await this.showMonad(existing);
+            return;
+        }
+
+        try {
+            new Notice(`Drilling into "${term}"...`);
 
-            // Ensure server is connected
-            if (!this.embeddingService.isReady()) {
-                await this.embeddingService.initialize();
+            const scope = new Set(parent.notes.map(note => note.path));
+            const monad = await this.buildMonad(term, scope);
+            if (!monad) {
+                new Notice(`No notes in "${parent.query}" relate to "${term}"`);
+                return;
             }
 
-            // Generate query embedding
-            const queryEmbedding = await this.embeddingService.embed(query);
-            console.log('Query embedding generated:', {
-                query,
-                embeddingLength: queryEmbedding.length,
-                embeddingPreview: queryEmbedding.slice(0, 5),
-                embeddingSum: queryEmbedding.reduce((a, b) => a + b, 0)
-            });
+            this.nestMonad(parent, monad);
+            this.searchInput.value = term;
+            await this.showMonad(monad);
 
-            // Find nearest notes with hybrid scoring (semantic + metadata)
-            const nearestNotes = await this.vectorIndex.findNearest(queryEmbedding, 50, queryNormalized);
-            console.log('Nearest notes found:', {
-                count: nearestNotes.length,
-                topScores: nearestNotes.slice(0, 5).map(n => ({ path: n.path, score: n.score })),
-                scoreDiversity: new Set(nearestNotes.slice(0, 10).map(n => n.score.toFixed(3))).size
-            });
+        } catch (error) {
+            this.reportSearchError(error);
+        }
+    }
 
-            if (nearestNotes.length === 0) {
-                new Notice('No indexed notes found. Please index your vault first.');
+    /**
+     * Open a dyad pole as a new monad scoped to the pole's notes
+     * @param parentId Id of the monad the dyad was detected in (nests the pole under it)
+     */
+    async openPole(pole: ConceptualNode, parentId?: string) {
+        try {
+            new Notice(`Opening "${pole.label}" as monad...`);
+
+            const monad = await this.buildMonad(pole.label, new Set(pole.notes), pole.terms.join(' '));
+            if (!monad) {
+                new Notice(`No indexed notes found for "${pole.label}"`);
                 return;
             }
 
-            // Extract concepts from top notes (pass query words to filter out)
-            const queryWords = new Set(queryNormalized.split(/\s+/).filter(w => w.length > 3));
-            const concepts = await this.extractSemanticConcepts(
-                nearestNotes.slice(0, 20),
-                queryEmbedding,
-                queryWords
-            );
+            const parentIndex = this.monadStack.findIndex(m => m.id === parentId);
+            if (parentIndex >= 0) {
+                this.monadStack = this.monadStack.slice(0, parentIndex + 1);
+                this.nestMonad(this.monadStack[parentIndex], monad);
+            } else {
+                this.monadStack = [monad];
+            }
 
-            // Project to 2D
-            const projection = await this.projectToVisualization(
-                queryEmbedding,
-                concepts,
-                nearestNotes.slice(0, 12)
-            );
+            this.searchInput.value = pole.label;
+            await this.showMonad(monad);
 
-            // Create monad
-            this.currentMonad = {
-                id: Date.now().toString(),
-                query,
-                queryEmbedding,
-                notes: nearestNotes,
-                concepts,
-                projection2D: projection,
-                createdAt: new Date()
-            };
+        } catch (error) {
+            this.reportSearchError(error);
+        }
+    }
+
+    /**
+     * Attach a monad as a child of another and make it the top of the stack
+     */
+    nestMonad(parent: SemanticMonad, child: SemanticMonad) {
+        child.parent = parent;
+        parent.children = [...(parent.children || []), child];
+        this.monadStack.push(child);
+    }
 
-            // Update UI
+    /**
+     * Pop back to an ancestor in the stack without re-running its search
+     * @param index Position in the stack, or -1 to return to the empty semantic space
+     */
+    async popTo(index: number) {
+        if (index < 0) {
+            this.monadStack = [];
+            this.currentMonad = null;
+            this.currentPolarities = [];
+            this.searchInput.value = '';
             this.updateBreadcrumb();
             this.displayNotes();
             this.displayConcepts();
+            this.displayPolarities();
             this.draw();
+            return;
+        }
+
+        this.monadStack = this.monadStack.slice(0, index + 1);
+        const monad = this.monadStack[index];
+        this.searchInput.value = monad.query;
+        await this.showMonad(monad);
+    }
+
+    /**
+     * Build a semantic monad for a query
+     * @param scope Optional note paths to restrict the monad to
+     * @param embedText Text to embed as the monad center (defaults to the query)
+     * @returns The monad, or null if no indexed notes were found
+     */
+    async buildMonad(query: string, scope?: Set<string>, embedText?: string): Promise<SemanticMonad | null> {
+        // Normalize query (lowercase for matching)
+        const queryNormalized = query.toLowerCase();
+
+        // Ensure server is connected
+        await this.connectProvider();
+
+        // Generate query embedding
+        const queryEmbedding = await this.embeddingProvider.embed(embedText || query);
+        console.log('Query embedding generated:', {
+            query,
+            embeddingLength: queryEmbedding.length,
+            embeddingPreview: queryEmbedding.slice(0, 5),
+            embeddingSum: queryEmbedding.reduce((a, b) => a + b, 0)
+        });
 
-            new Notice(`Found ${nearestNotes.length} semantically related notes`);
+        // Find nearest notes with hybrid scoring (semantic + metadata)
+        const nearestNotes = await this.vectorIndex.findNearest(queryEmbedding, 50, queryNormalized, scope);
+        console.log('Nearest notes found:', {
+            count: nearestNotes.length,
+            topScores: nearestNotes.slice(0, 5).map(n => ({ path: n.path, score: n.score })),
+            scoreDiversity: new Set(nearestNotes.slice(0, 10).map(n => n.score.toFixed(3))).size
+        });
+
+        if (nearestNotes.length === 0) {
+            return null;
+        }
+
+        // Extract concepts from top notes (pass query words to filter out)
+        const queryWords = new Set(queryNormalized.split(/\s+/).filter(w => w.length > 3));
+        const concepts = await this.extractSemanticConcepts(
+            nearestNotes.slice(0, 20),
+            queryEmbedding,
+            queryWords
+        );
+
+        // Project to 2D
+        const projection = await this.projectToVisualization(
+            queryEmbedding,
+            concepts,
+            nearestNotes.slice(0, 12)
+        );
+
+        return {
+            id: Date.now().toString(),
+            query,
+            queryEmbedding,
+            notes: nearestNotes,
+            concepts,
+            projection2D: projection,
+            createdAt: new Date()
+        };
+    }
+
+    /**
+     * Make a monad current and refresh the UI
+     */
+    async showMonad(monad: SemanticMonad) {
+        this.currentMonad = monad;
+
+        // Detect candidate dyads within the monad (cached for stack navigation)
+        if (!monad.polarities) {
+            monad.polarities = await this.detectPolarities(monad);
+        }
+        this.currentPolarities = monad.polarities;
+
+        // Update UI
+        this.updateBreadcrumb();
+        this.displayNotes();
+        this.displayConcepts();
+        this.displayPolarities();
+        this.draw();
+    }
+
+    reportSearchError(error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        if (errorMsg.includes('embedding server')) {
+            new Notice(`Search failed: Cannot connect to ${this.embeddingProvider.describe()}. Please ensure it is running.`, 10000);
+        } else {
+            new Notice('Search failed: ' + errorMsg, 8000);
+        }
+        console.error('Semantic search error:', error);
+
+        if (!this.embeddingProvider.isReady()) {
+            this.offerKeywordFallback();
+        }
+    }
 
+    /**
+     * Offer the keyword-only explorer when embeddings are unavailable
+     */
+    offerKeywordFallback() {
+        this.fallbackBanner.empty();
+        this.fallbackBanner.show();
+
+        this.fallbackBanner.createEl('span', {
+            text: 'The embedding server is unavailable. Keyword search and the built-in embeddings work without it.'
+        });
+
+        const openButton = this.fallbackBanner.createEl('button', {
+            text: 'Open Keyword Search',
+            cls: 'index-vault-button'
+        });
+        openButton.addEventListener('click', () => {
+            const query = this.searchInput?.value.trim();
+            this.plugin.activateContextualSearch(query || undefined);
+        });
+
+        const builtinButton = this.fallbackBanner.createEl('button', {
+            text: 'Use Built-in Embeddings',
+            cls: 'index-vault-button'
+        });
+        builtinButton.addEventListener('click', async () => {
+            this.fallbackBanner.hide();
+            await this.plugin.useBuiltinEmbeddings();
+        });
+
+        const dismissButton = this.fallbackBanner.createEl('button', { text: 'Dismiss' });
+        dismissButton.addEventListener('click', () => this.fallbackBanner.hide());
+    }
+
+    /**
+     * Detect polarities (candidate dyads) among the monad's notes
+     */
+    async detectPolarities(monad: SemanticMonad): Promise<Polarity[]> {
+        const noteContent = await this.readMonadNotes(monad);
+
+        const polarities = this.polarityEngine.detectFromSemanticMonad(monad, noteContent);
+        console.log('Polarities detected:', polarities.map(p => ({ id: p.id, confidence: p.confidence.toFixed(2), type: p.type })));
+
+        return polarities;
+    }
+
+    /**
+     * Cluster the current monad into `order` conceptual nodes and show them on the Kn lens
+     */
+    async mapToLens(geometry: GraphGeometry) {
+        if (!this.currentMonad) {
+            new Notice('Run a semantic search first to define a monad');
+            return;
+        }
+
+        try {
+            const noteContent = await this.readMonadNotes(this.currentMonad);
+            const systematicView = this.clusterEngine.buildSystematicView(
+                this.currentMonad,
+                geometry.order,
+                geometry.edges,
+                noteContent
+            );
+
+            await this.plugin.openSystematicView(systematicView, geometry);
         } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            if (errorMsg.includes('embedding server') || errorMsg.includes('localhost:8765')) {
-                new Notice('Search failed: Cannot connect to embedding server. Please ensure the Rust server is running.', 10000);
-            } else {
-                new Notice('Search failed: ' + errorMsg, 8000);
-            }
-            console.error('Semantic search error:', error);
+            new Notice('Could not map monad onto lens: ' + error.message, 8000);
+            console.error('Lens mapping error:', error);
+        }
+    }
+
+    /**
+     * Read the content of every note in a monad
+     */
+    async readMonadNotes(monad: SemanticMonad): Promise<Map<string, string>> {
+        const noteContent: Map<string, string> = new Map();
+
+        for (const note of monad.notes) {
+            const file = this.app.vault.getAbstractFileByPath(note.path);
+            if (!(file instanceof TFile)) continue;
+            noteContent.set(note.path, await this.app.vault.cachedRead(file));
         }
+
+        return noteContent;
     }
 
     /**
@@ -510,8 +829,8 @@ export class SemanticMonadView extends ItemView {
         }
 
         // PHASE 2: FINE - Calculate global distinctiveness
-        const allRecords = await this.vectorIndex.getAllRecords();
-        const totalDocs = allRecords.length;
+        const allPaths = Array.from(new Set((await this.vectorIndex.getAllRecords()).map(r => r.path)));
+        const totalDocs = allPaths.length;
 
         // Build global document frequency map (how many notes contain each term)
         const globalDF: Map<string, number> = new Map();
@@ -523,15 +842,15 @@ export class SemanticMonadView extends ItemView {
             sampleIndices.add(Math.floor(Math.random() * totalDocs));
         }
 
-        const sampledRecords = Array.from(sampleIndices).map(i => allRecords[i]);
+        const sampledPaths = Array.from(sampleIndices).map(i => allPaths[i]);
 
-        for (const record of sampledRecords) {
-            const file = this.app.vault.getAbstractFileByPath(record.id);
+        for (const path of sampledPaths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
             if (!(file instanceof TFile)) continue;
 
             const titleWords = new Set(this.extractTerms(file.basename));
             const pathWords = new Set(
-                record.id.split('/').slice(0, -1).flatMap(p => this.extractTerms(p))
+                path.split('/').slice(0, -1).flatMap(p => this.extractTerms(p))
             );
 
             const allWords = new Set([...titleWords, ...pathWords]);
@@ -591,10 +910,10 @@ export class SemanticMonadView extends ItemView {
         }
 
         // Embed and rank by semantic similarity
-        const conceptEmbeddings = await this.embeddingService.embedBatch(rankedCandidates);
+        const conceptEmbeddings = await this.embeddingProvider.embedBatch(rankedCandidates);
 
         const concepts: ConceptNode[] = rankedCandidates.map((term, i) => {
-            const semanticSim = EmbeddingService.cosineSimilarity(
+            const semanticSim = cosineSimilarity(
                 queryEmbedding,
                 conceptEmbeddings[i]
             );
@@ -725,8 +1044,10 @@ export class SemanticMonadView extends ItemView {
 
         this.ctx.clearRect(0, 0, width, height);
 
-        const textColor = getComputedStyle(document.body).getPropertyValue('--text-normal').trim() || '#000';
-        const mutedColor = getComputedStyle(document.body).getPropertyValue('--text-muted').trim() || '#888';
+        const style = getComputedStyle(document.body);
+        const textColor = style.getPropertyValue('--text-normal').trim() || '#000';
+        const mutedColor = style.getPropertyValue('--text-muted').trim() || '#888';
+        const accentColor = style.getPropertyValue('--interactive-accent').trim() || '#4a9eff';
 
         if (!this.currentMonad) {
             this.ctx.fillStyle = mutedColor;
@@ -741,14 +1062,14 @@ export class SemanticMonadView extends ItemView {
         const radius = Math.min(width, height) / 3;
 
         // Draw monad boundary
-        this.ctx.strokeStyle = '#4a9eff';
+        this.ctx.strokeStyle = accentColor;
         this.ctx.lineWidth = 2;
         this.ctx.beginPath();
         this.ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
         this.ctx.stroke();
 
         // Draw center (query)
-        this.ctx.fillStyle = '#4a9eff';
+        this.ctx.fillStyle = accentColor;
         this.ctx.beginPath();
         this.ctx.arc(centerX, centerY, 6, 0, 2 * Math.PI);
         this.ctx.fill();
@@ -771,12 +1092,13 @@ export class SemanticMonadView extends ItemView {
                 radius * 0.85
             );
 
-            // Draw concept dot (color by similarity)
-            const intensity = Math.floor(concept.similarity * 200 + 55);
-            this.ctx.fillStyle = `rgb(${intensity}, 100, ${255 - intensity})`;
+            // Draw concept dot (more similar concepts are more opaque)
+            this.ctx.fillStyle = accentColor;
+            this.ctx.globalAlpha = 0.3 + 0.7 * Math.max(0, Math.min(1, concept.similarity));
             this.ctx.beginPath();
             this.ctx.arc(pos.x, pos.y, 4, 0, 2 * Math.PI);
             this.ctx.fill();
+            this.ctx.globalAlpha = 1;
 
             // Draw concept label
             this.ctx.fillStyle = textColor;
@@ -812,9 +1134,8 @@ export class SemanticMonadView extends ItemView {
             const dist = Math.sqrt((x - pos.x) ** 2 + (y - pos.y) ** 2);
 
             if (dist < 15) {  // Click threshold
-                // Navigate to this concept
-                this.searchInput.value = concept.term;
-                this.handleSemanticSearch();
+                // Nest this concept as a child monad
+                this.drillDown(concept.term);
                 break;
             }
         }
@@ -841,9 +1162,19 @@ export class SemanticMonadView extends ItemView {
                 cls: 'note-link'
             });
 
+            // The section that matched, when it sits under a heading
+            const headingPath = note.section?.headingPath || [];
+            if (headingPath.length > 0) {
+                link.createEl('span', {
+                    text: ` › ${headingPath[headingPath.length - 1]}`,
+                    cls: 'note-section',
+                    attr: { title: headingPath.join(' › ') }
+                });
+            }
+
             link.addEventListener('click', (e) => {
                 e.preventDefault();
-                this.app.workspace.openLinkText(file.path, '', false);
+                this.openNoteSection(file, note.section);
             });
 
             const score = item.createEl('span', {
@@ -853,6 +1184,13 @@ export class SemanticMonadView extends ItemView {
         }
     }
 
+    /**
+     * Open a note scrolled to the section that matched the search
+     */
+    async openNoteSection(file: TFile, section?: NoteSection) {
+        await this.app.workspace.getLeaf(false).openFile(file, section ? { eState: { line: section.line } } : undefined);
+    }
+
     displayConcepts() {
         this.conceptsList.empty();
 
@@ -869,34 +1207,94 @@ export class SemanticMonadView extends ItemView {
                 cls: 'concept-tag clickable'
             });
 
-            tag.addEventListener('click', () => {
-                this.searchInput.value = concept.term;
-                this.handleSemanticSearch();
+            tag.addEventListener('click', () => this.drillDown(concept.term));
+        }
+    }
+
+    displayPolarities() {
+        this.polaritiesList.empty();
+
+        if (!this.currentMonad || this.currentPolarities.length === 0) {
+            this.polaritiesList.createEl('p', { text: 'No polarities detected', cls: 'empty-message' });
+            return;
+        }
+
+        const polarityItems = this.polaritiesList.createEl('ul', { cls: 'polarity-items' });
+
+        for (const polarity of this.currentPolarities) {
+            const item = polarityItems.createEl('li', { cls: 'polarity-item clickable' });
+            item.setAttribute('title', 'Visualize as K2 dyad');
+
+            item.createEl('span', {
+                text: `${polarity.poleA.label} / ${polarity.poleB.label}`,
+                cls: 'polarity-poles'
             });
+
+            item.createEl('span', {
+                text: polarity.type === 'same-context' ? 'same context' : 'cross context',
+                cls: 'polarity-type'
+            });
+
+            item.createEl('span', {
+                text: `${(polarity.confidence * 100).toFixed(0)}%`,
+                cls: 'relevance-score'
+            });
+
+            item.addEventListener('click', () => this.openDyad(polarity));
+        }
+    }
+
+    /**
+     * Visualize a polarity in the K2 lens, offering the others as alternatives
+     */
+    openDyad(polarity: Polarity) {
+        if (!this.currentMonad) return;
+
+        const dyadView = PolarityEngine.buildDyadView(
+            PolarityEngine.toMonad(this.currentMonad),
+            this.currentPolarities,
+            polarity.id
+        );
+
+        if (dyadView) {
+            this.plugin.openDyadView(dyadView);
         }
     }
 
     updateBreadcrumb() {
         this.breadcrumbTrail.empty();
 
-        this.breadcrumbTrail.createEl('span', { text: 'Semantic Space', cls: 'breadcrumb-vault' });
+        const root = this.breadcrumbTrail.createEl('span', { text: 'Semantic Space', cls: 'breadcrumb-vault' });
+        if (this.monadStack.length > 0) {
+            root.addClass('clickable');
+            root.addEventListener('click', () => this.popTo(-1));
+        }
 
-        if (this.currentMonad) {
+        this.monadStack.forEach((monad, index) => {
             this.breadcrumbTrail.createEl('span', { text: ' > ', cls: 'breadcrumb-separator' });
-            this.breadcrumbTrail.createEl('span', {
-                text: this.currentMonad.query,
+            const crumb = this.breadcrumbTrail.createEl('span', {
+                text: monad.query,
                 cls: 'breadcrumb-topic'
             });
-        }
+
+            // Every ancestor is clickable; the current monad is not
+            if (index < this.monadStack.length - 1) {
+                crumb.addClass('clickable');
+                crumb.addEventListener('click', () => this.popTo(index));
+            }
+        });
     }
 
     async updateIndexStatus() {
         const stats = await this.vectorIndex.getStats();
-        if (stats.indexedNotes === 0) {
+        if (stats.indexedNotes === 0 && this.vectorIndex.droppedOldIndex) {
+            this.statusDiv.setText('📊 Index cleared by an update to section embeddings (Click "Index Vault" to rebuild it)');
+            this.statusDiv.style.color = 'var(--text-warning)';
+        } else if (stats.indexedNotes === 0) {
             this.statusDiv.setText(`📊 Index: ${stats.indexedNotes} notes (Click "Index Vault" to start)`);
             this.statusDiv.style.color = 'var(--text-muted)';
         } else {
-            this.statusDiv.setText(`📊 Index: ${stats.indexedNotes} notes`);
+            this.statusDiv.setText(`📊 Index: ${stats.indexedNotes} notes (${stats.indexedChunks} sections)`);
             this.statusDiv.style.color = 'var(--text-normal)';
         }
     }
@@ -2,17 +2,29 @@
  * Type definitions for semantic search system
  */
 
+import { Polarity } from './types';
+
 export interface Embedding {
     vector: number[];
     dimensions: number;
 }
 
 export interface EmbeddingRecord {
-    id: string;              // Note path
+    id: string;              // Note path and chunk number, e.g. "Folder/Note.md#2"
+    path: string;            // Note path
+    section: NoteSection;    // Where the chunk sits in the note
     embedding: number[];     // Vector representation
-    text: string;            // Note content snippet
+    text: string;            // Chunk content snippet
     metadata: NoteMetadata;
     timestamp: number;       // When embedding was created
+    model?: string;          // Embedding model that produced the vector
+}
+
+export interface NoteSection {
+    headingPath: string[];   // Headings the chunk sits under, outermost first
+    start: number;           // Character offset of the chunk in the note
+    end: number;             // Character offset just past the chunk
+    line: number;            // Line the chunk starts on (0-based)
 }
 
 export interface NoteMetadata {
@@ -25,9 +37,10 @@ export interface NoteMetadata {
 
 export interface ScoredNote {
     path: string;
-    score: number;          // Cosine similarity (0-1)
-    embedding: number[];
+    score: number;          // Cosine similarity (0-1) of the best-matching chunk
+    embedding: number[];    // Embedding of the best-matching chunk
     metadata: NoteMetadata;
+    section?: NoteSection;  // Best-matching chunk
 }
 
 export interface Point2D {
@@ -44,7 +57,12 @@ export interface SemanticMonad {
     notes: ScoredNote[];
     concepts: ConceptNode[];
     projection2D?: Point2D[];
+    polarities?: Polarity[];     // Cached dyad candidates
     createdAt: Date;
+
+    // Hierarchy
+    parent?: SemanticMonad;      // Monad this one was drilled down from
+    children?: SemanticMonad[];  // Monads drilled down into from this one
 }
 
 export interface ConceptNode {
@@ -57,6 +75,7 @@ export interface ConceptNode {
 export interface IndexStats {
     totalNotes: number;
     indexedNotes: number;
+    indexedChunks: number;
     lastUpdated: Date;
     modelInfo: {
         name: string;
@@ -0,0 +1,78 @@
+/**
+ * Term Extraction - Shared tokenization for concept and polarity analysis
+ */
+
+const STOP_WORDS: Set<string> = new Set([
+    'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i',
+    'it', 'for', 'not', 'on', 'with', 'he', 'as', 'you', 'do', 'at',
+    'this', 'but', 'his', 'by', 'from', 'they', 'we', 'say', 'her', 'she',
+    'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their',
+    'what', 'so', 'up', 'out', 'if', 'about', 'who', 'get', 'which', 'go',
+    'when', 'make', 'can', 'like', 'time', 'no', 'just', 'him', 'know',
+    'take', 'people', 'into', 'year', 'your', 'good', 'some', 'could', 'them',
+    'see', 'other', 'than', 'then', 'now', 'look', 'only', 'come', 'its',
+    'over', 'think', 'also', 'back', 'after', 'use', 'two', 'how', 'our',
+    'work', 'first', 'well', 'way', 'even', 'new', 'want', 'because', 'any',
+    'these', 'give', 'day', 'most', 'us', 'is', 'was', 'are', 'been', 'has',
+    'had', 'were', 'said', 'did', 'having', 'may', 'should', 'am', 'being',
+    'here', 'more', 'much', 'such', 'very', 'each', 'between', 'through',
+    'during', 'before', 'under', 'again', 'further', 'where', 'both', 'few',
+    'doing', 'same', 'once', 'since', 'until', 'while', 'does', 'done',
+    'really', 'something', 'things', 'thing', 'many', 'might', 'must',
+    'made', 'used', 'using', 'those', 'within', 'without', 'however'
+]);
+
+/**
+ * Extract candidate terms from text (lowercased, stop words and numbers removed)
+ */
+export function extractTerms(content: string, minLength: number = 4): string[] {
+    return content
+        .toLowerCase()
+        .replace(/[#*_`\[\]()]/g, ' ')
+        .split(/\s+/)
+        .filter(w => !w.match(/^(https?|ftp|file)/))
+        .map(w => w.replace(/[^a-z0-9]/g, ''))
+        .filter(w => {
+            if (w.length < minLength) return false;
+            if (STOP_WORDS.has(w)) return false;
+            if (/^\d+$/.test(w)) return false;
+            return true;
+        });
+}
+
+// Scripts written without spaces between words
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+/**
+ * Extract words in any script (lowercased, stop words and numbers removed)
+ * Letters, marks and digits of every alphabet count, so accented, Greek or Cyrillic words stay
+ * whole; Chinese and Japanese text, which has no spaces, becomes overlapping character pairs
+ */
+export function extractWords(content: string, minLength: number = 3): string[] {
+    const text = content
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/(?:https?|ftp|file):\/\/\S+/g, ' ')
+        .replace(UNSPACED, run => ` ${run} `);
+
+    const words: string[] = [];
+    for (const token of text.match(/[\p{L}\p{M}\p{N}]+/gu) || []) {
+        if (token.match(UNSPACED)?.[0] === token) {
+            const chars = Array.from(token);
+            if (chars.length === 1) words.push(token);
+            for (let i = 0; i + 1 < chars.length; i++) {
+                words.push(chars[i] + chars[i + 1]);
+            }
+        } else if (token.length >= minLength && !STOP_WORDS.has(token) && !/^\d+$/.test(token)) {
+            words.push(token);
+        }
+    }
+    return words;
+}
+
+/**
+ * Remove a leading YAML frontmatter block
+ */
+export function stripFrontmatter(content: string): string {
+    return content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+}
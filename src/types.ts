@@ -16,6 +16,19 @@ export interface Vertex {
 export interface Edge {
     from: number;
     to: number;
+    type?: string;      // Relationship kind, e.g. "dynamic", "tension", "flow"
+    directed?: boolean; // Drawn as an arrow from → to
+    label?: string;     // Optional text shown at the edge midpoint
+}
+
+/**
+ * Stroke style for one edge type
+ */
+export interface EdgeStyle {
+    color: string;      // CSS variable (e.g. "--color-red") or literal colour
+    fallback: string;   // Colour used when the CSS variable is not defined
+    width: number;
+    dash: number[];     // Canvas line dash pattern ([] for solid)
 }
 
 /**
@@ -28,6 +41,11 @@ export interface GraphGeometry {
     edges: Edge[];
 }
 
+/**
+ * Outline a vertex is drawn with
+ */
+export type VertexShape = 'circle' | 'square' | 'diamond' | 'triangle' | 'hexagon';
+
 /**
  * Settings for node labeling in the graph view
  */
@@ -37,15 +55,94 @@ export interface NodeLabelSettings {
         noteFile: string;
         labelOffsetX?: number; // Custom X offset for label position
         labelOffsetY?: number; // Custom Y offset for label position
+        color?: string;        // Vertex fill: a theme variable ("--color-red") or any CSS colour
+        icon?: string;         // Lucide icon name drawn inside the vertex
+        shape?: VertexShape;   // Defaults to a circle
+    };
+}
+
+/**
+ * Settings for edge labeling in the graph view, keyed by "from-to"
+ */
+export interface EdgeLabelSettings {
+    [edgeKey: string]: {
+        label: string;
+        noteFile: string;
     };
 }
 
+/**
+ * A named mapping of labels and notes onto one geometry (e.g. "K4 for the team")
+ * The default instance of a geometry has the geometry's name as its id, so labels
+ * saved before instances existed belong to it
+ */
+export interface GraphInstance {
+    id: string;     // Key for nodeLabelSettings / edgeLabelSettings (vault path for file-backed instances)
+    name: string;   // Display name
+    graph: string;  // Name of the geometry it maps onto
+    file?: string;  // Vault path of the .systematics.md file storing it, if any
+}
+
+/**
+ * Zoom and pan of the graph view
+ * x/y is the graph coordinate at the centre of the canvas, so the viewport survives resizing
+ */
+export interface GraphViewport {
+    zoom: number;   // Multiplier of the scale that fits the canvas (1 = default)
+    x: number;
+    y: number;
+}
+
+/**
+ * Vertex positions an instance moved away from its geometry's layout, by vertex index
+ */
+export interface VertexLayout {
+    [vertexIndex: number]: { x: number; y: number };
+}
+
+/**
+ * Everything the user builds on one graph instance, wherever it is stored
+ */
+export interface GraphDocument {
+    graph: string;
+    name: string;
+    nodes: NodeLabelSettings;
+    edges: EdgeLabelSettings;
+    hiddenEdgeTypes: string[];
+    layout?: VertexLayout;
+}
+
+/**
+ * Backend that turns note text into embeddings
+ * server: the systematics-embeddings Rust server; openai: an OpenAI-compatible /v1/embeddings API;
+ * local: hashed TF-IDF vectors computed in the plugin
+ */
+export type EmbeddingProviderType = 'server' | 'openai' | 'local';
+
 /**
  * Plugin settings structure
  */
 export interface SystematicsSettings {
-    currentGraph: number; // Which Kn graph is currently selected (3-12)
+    currentGraph: string; // Name of the selected graph ("K4", or a custom graph name)
+    graphInstances: GraphInstance[]; // Named instances (geometries without any use their default)
+    currentInstances: { [graph: string]: string }; // Selected instance id per geometry
     nodeLabelSettings: { [graphKey: string]: NodeLabelSettings };
+    edgeLabelSettings: { [graphKey: string]: EdgeLabelSettings };
+    customGraphs: GraphGeometry[]; // User-defined geometries
+    customGraphsFile: string; // Optional vault path to a JSON/markdown file of graph definitions
+    hiddenEdgeTypes: { [graphKey: string]: string[] }; // Edge types switched off per graph
+    viewports: { [instanceId: string]: GraphViewport }; // Saved zoom and pan per instance
+    layouts: { [instanceId: string]: VertexLayout }; // Vertex position overrides per instance
+    storeGraphsInFiles: boolean; // Keep instances in .systematics.md notes rather than plugin data
+    graphFolder: string; // Vault folder for new graph files
+    embeddingProvider: EmbeddingProviderType; // Which backend semantic search embeds text with
+    embeddingServerUrl: string; // Base URL of the embedding server
+    embeddingApiToken: string; // Optional bearer token for the embedding server
+    embeddingHealthTimeout: number; // Seconds to wait for the server's health check
+    embeddingRequestTimeout: number; // Seconds to wait for an embedding request
+    openaiEmbeddingUrl: string; // OpenAI-compatible API base URL (up to /v1)
+    openaiEmbeddingModel: string; // Model name sent to the OpenAI-compatible API
+    openaiEmbeddingKey: string; // Optional API key for the OpenAI-compatible API
 }
 
 /**
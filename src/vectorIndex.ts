@@ -1,24 +1,47 @@
 /**
  * Vector Index - Stores and retrieves embeddings using IndexedDB
+ * A note is stored as one record per chunk, keyed "<path>#<chunk number>"
  */
 
-import { EmbeddingRecord, ScoredNote, IndexStats, NoteMetadata } from './semanticTypes';
-import { EmbeddingService } from './embeddingService';
+import { EmbeddingRecord, ScoredNote, IndexStats, NoteMetadata, NoteSection } from './semanticTypes';
+import { EmbeddingModelInfo, cosineSimilarity } from './embeddingProvider';
+
+export interface IndexedChunk {
+    section: NoteSection;
+    text: string;
+    embedding: number[];
+}
+
+// Stored for a note with nothing to embed, so its mtime still shows it is up to date
+const EMPTY_CHUNK: IndexedChunk = {
+    section: { headingPath: [], start: 0, end: 0, line: 0 },
+    text: '',
+    embedding: []
+};
 
 export class VectorIndex {
     private dbName: string = 'obsidian-systematics-embeddings';
     private storeName: string = 'embeddings';
     private db: IDBDatabase | null = null;
-    private modelDimensions: number = 384;
+    private model: EmbeddingModelInfo | null = null;   // Model of the current provider, once connected
+    droppedOldIndex: boolean = false;                   // Whole-note vectors of version 1 were deleted on upgrade
 
     constructor() {}
 
+    /**
+     * Set the model new vectors come from
+     * Vectors from other models are skipped by searches and re-indexed
+     */
+    setModel(model: EmbeddingModelInfo) {
+        this.model = model;
+    }
+
     /**
      * Initialize IndexedDB connection
      */
     async initialize(): Promise<void> {
         return new Promise((resolve, reject) => {
-            const request = indexedDB.open(this.dbName, 1);
+            const request = indexedDB.open(this.dbName, 2);
 
             request.onerror = () => reject(request.error);
             request.onsuccess = () => {
@@ -29,7 +52,13 @@ export class VectorIndex {
             request.onupgradeneeded = (event) => {
                 const db = (event.target as IDBOpenDBRequest).result;
 
-                // Create object store with path as key
+                // Version 1 held one vector per note; those are replaced by chunks on the next index
+                if (event.oldVersion < 2 && db.objectStoreNames.contains(this.storeName)) {
+                    db.deleteObjectStore(this.storeName);
+                    this.droppedOldIndex = event.oldVersion === 1;
+                }
+
+                // Create object store with path and chunk number as key
                 if (!db.objectStoreNames.contains(this.storeName)) {
                     const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
 
@@ -42,58 +71,52 @@ export class VectorIndex {
     }
 
     /**
-     * Add or update a note's embedding
+     * Replace a note's chunk embeddings
      */
-    async addNote(
-        path: string,
-        embedding: number[],
-        text: string,
-        metadata: NoteMetadata
-    ): Promise<void> {
-        if (!this.db) throw new Error('Database not initialized');
-
-        const record: EmbeddingRecord = {
-            id: path,
-            embedding,
-            text,
-            metadata,
-            timestamp: Date.now()
-        };
-
-        return new Promise((resolve, reject) => {
-            const transaction = this.db!.transaction([this.storeName], 'readwrite');
-            const store = transaction.objectStore(this.storeName);
-            const request = store.put(record);
-
-            request.onsuccess = () => resolve();
-            request.onerror = () => reject(request.error);
-        });
+    async addNote(path: string, chunks: IndexedChunk[], metadata: NoteMetadata): Promise<void> {
+        return this.addNotes([{ path, chunks, metadata }]);
     }
 
     /**
-     * Update an existing note's embedding
+     * Replace many notes' chunk embeddings in one transaction
+     * A note without chunks gets an empty record that searches skip
      */
-    async updateNote(path: string, embedding: number[]): Promise<void> {
-        const existing = await this.getNote(path);
-        if (!existing) {
-            throw new Error(`Note not found: ${path}`);
-        }
+    async addNotes(notes: { path: string; chunks: IndexedChunk[]; metadata: NoteMetadata }[]): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
 
-        existing.embedding = embedding;
-        existing.timestamp = Date.now();
+        const timestamp = Date.now();
 
         return new Promise((resolve, reject) => {
             const transaction = this.db!.transaction([this.storeName], 'readwrite');
             const store = transaction.objectStore(this.storeName);
-            const request = store.put(existing);
 
-            request.onsuccess = () => resolve();
-            request.onerror = () => reject(request.error);
+            for (const note of notes) {
+                // The note may have fewer chunks than when it was last indexed
+                store.delete(this.chunkRange(note.path));
+
+                const chunks = note.chunks.length > 0 ? note.chunks : [EMPTY_CHUNK];
+                chunks.forEach((chunk, i) => {
+                    const record: EmbeddingRecord = {
+                        id: `${note.path}#${i}`,
+                        path: note.path,
+                        section: chunk.section,
+                        embedding: chunk.embedding,
+                        text: chunk.text,
+                        metadata: note.metadata,
+                        timestamp,
+                        model: this.model?.name
+                    };
+                    store.put(record);
+                });
+            }
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
         });
     }
 
     /**
-     * Delete a note's embedding
+     * Delete a note's embeddings
      */
     async deleteNote(path: string): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
@@ -101,7 +124,7 @@ export class VectorIndex {
         return new Promise((resolve, reject) => {
             const transaction = this.db!.transaction([this.storeName], 'readwrite');
             const store = transaction.objectStore(this.storeName);
-            const request = store.delete(path);
+            const request = store.delete(this.chunkRange(path));
 
             request.onsuccess = () => resolve();
             request.onerror = () => reject(request.error);
@@ -109,21 +132,28 @@ export class VectorIndex {
     }
 
     /**
-     * Get a note's embedding record
+     * Get a note's chunk records
      */
-    async getNote(path: string): Promise<EmbeddingRecord | null> {
+    async getChunks(path: string): Promise<EmbeddingRecord[]> {
         if (!this.db) throw new Error('Database not initialized');
 
         return new Promise((resolve, reject) => {
             const transaction = this.db!.transaction([this.storeName], 'readonly');
             const store = transaction.objectStore(this.storeName);
-            const request = store.get(path);
+            const request = store.getAll(this.chunkRange(path));
 
-            request.onsuccess = () => resolve(request.result || null);
+            request.onsuccess = () => resolve(request.result || []);
             request.onerror = () => reject(request.error);
         });
     }
 
+    /**
+     * Keys of every chunk of a note (file names cannot contain #)
+     */
+    private chunkRange(path: string): IDBKeyRange {
+        return IDBKeyRange.bound(`${path}#`, `${path}#\uffff`);
+    }
+
     /**
      * Get all embedding records
      */
@@ -141,24 +171,42 @@ export class VectorIndex {
     }
 
     /**
-     * Find k nearest neighbors to query embedding with hybrid scoring
+     * Find k nearest notes to query embedding with hybrid scoring
+     * A note scores as its best-matching chunk, which is returned as its section
+     * @param scope Optional set of note paths to restrict the search to
      */
     async findNearest(
         queryEmbedding: number[],
         k: number,
-        queryText?: string
+        queryText?: string,
+        scope?: Set<string>
     ): Promise<ScoredNote[]> {
-        const records = await this.getAllRecords();
+        const allRecords = await this.getAllRecords();
+        const records = allRecords.filter(r =>
+            (!scope || scope.has(r.path)) &&
+            this.isCurrent(r) &&
+            r.embedding.length === queryEmbedding.length
+        );
+
+        // Best-matching chunk of each note
+        const bestChunks: Map<string, { record: EmbeddingRecord; score: number }> = new Map();
+        for (const record of records) {
+            const score = cosineSimilarity(queryEmbedding, record.embedding);
+            const best = bestChunks.get(record.path);
+            if (!best || score > best.score) {
+                bestChunks.set(record.path, { record, score });
+            }
+        }
 
-        const scored = records.map(record => {
+        const scored = Array.from(bestChunks.values()).map(({ record, score }) => {
             // Base semantic similarity score
-            const semanticScore = EmbeddingService.cosineSimilarity(queryEmbedding, record.embedding);
+            const semanticScore = score;
 
             // Boost score based on metadata if query text provided
             let boost = 0;
             if (queryText) {
                 const queryLower = queryText.toLowerCase();
-                const pathLower = record.id.toLowerCase();
+                const pathLower = record.path.toLowerCase();
                 const titleLower = record.metadata.title.toLowerCase();
                 const queryWords = queryLower.split(/\s+/).filter(w => w.length > 2);
 
@@ -209,10 +257,11 @@ export class VectorIndex {
             const finalScore = Math.min(1.0, semanticScore + boost);
 
             return {
-                path: record.id,
+                path: record.path,
                 score: finalScore,
                 embedding: record.embedding,
-                metadata: record.metadata
+                metadata: record.metadata,
+                section: record.section
             };
         });
 
@@ -226,32 +275,49 @@ export class VectorIndex {
      * Check if a note needs re-indexing (modified since last embedding)
      */
     async needsReindex(path: string, currentMtime: number): Promise<boolean> {
-        const record = await this.getNote(path);
+        const chunks = await this.getChunks(path);
+        return this.isStale(chunks[0] || null, currentMtime);
+    }
 
+    /**
+     * Whether a note, given any of its chunk records (null if it has none), needs embedding again
+     */
+    isStale(record: EmbeddingRecord | null, currentMtime: number): boolean {
         if (!record) return true;  // Not indexed yet
 
+        if (!this.isCurrent(record)) return true;  // Embedded by another model
+
         return record.metadata.mtime < currentMtime;  // Modified since indexing
     }
 
+    /**
+     * Whether a record was embedded by the current model (any record counts until one is set)
+     */
+    private isCurrent(record: EmbeddingRecord): boolean {
+        return !this.model || record.model === this.model.name;
+    }
+
     /**
      * Get index statistics
      */
     async getStats(): Promise<IndexStats> {
-        const records = await this.getAllRecords();
+        const allRecords = await this.getAllRecords();
 
-        let lastUpdated = new Date(0);
-        if (records.length > 0) {
-            const newest = Math.max(...records.map(r => r.timestamp));
-            lastUpdated = new Date(newest);
-        }
+        // A vault can have more chunks than Math.max takes arguments
+        const newest = allRecords.reduce((latest, r) => Math.max(latest, r.timestamp), 0);
+        const lastUpdated = new Date(newest);
+
+        // Empty records of notes with nothing to embed are not counted
+        const records = allRecords.filter(r => r.embedding.length > 0);
 
         return {
-            totalNotes: records.length,
-            indexedNotes: records.length,
+            totalNotes: new Set(records.map(r => r.path)).size,
+            indexedNotes: new Set(records.filter(r => this.isCurrent(r)).map(r => r.path)).size,
+            indexedChunks: records.filter(r => this.isCurrent(r)).length,
             lastUpdated,
-            modelInfo: {
-                name: 'Xenova/all-MiniLM-L6-v2',
-                dimensions: this.modelDimensions
+            modelInfo: this.model || {
+                name: records[0]?.model || 'unknown',
+                dimensions: records[0]?.embedding.length || 0
             }
         };
     }